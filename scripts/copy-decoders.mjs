@@ -0,0 +1,29 @@
+// Copy Draco and Basis decoder binaries from three into public/decoders
+// so compressed assets decode offline without a CDN (see AssetLoader.configureDecoders).
+
+import { cpSync, existsSync, mkdirSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const libs = resolve(root, 'node_modules/three/examples/jsm/libs');
+
+// Docs and the Draco encoder are not needed at runtime
+const SKIP = /(\.md|_encoder\.js)$/;
+
+const targets = [
+  { from: 'draco/gltf', to: 'public/decoders/draco' },
+  { from: 'basis', to: 'public/decoders/basis' },
+];
+
+for (const { from, to } of targets) {
+  const source = resolve(libs, from);
+  if (!existsSync(source)) {
+    console.warn(`Decoder source not found: ${source} (is three installed?)`);
+    continue;
+  }
+
+  const destination = resolve(root, to);
+  mkdirSync(destination, { recursive: true });
+  cpSync(source, destination, { recursive: true, filter: (path) => !SKIP.test(path) });
+}
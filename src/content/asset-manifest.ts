@@ -0,0 +1,26 @@
+/**
+ * asset-manifest.ts
+ * Assets each scene needs, with expected transfer sizes for weighted progress
+ * SectionScene.init loads the group named after its id:
+ * loadManifestGroup(ASSET_MANIFEST, this.id, { owner: this.id, signal })
+ */
+
+import type { AssetManifest } from '../types/AssetManifest';
+
+export const ASSET_MANIFEST: AssetManifest = {
+  landing: {
+    models: [{ url: '/models/landing-focal.glb', bytes: 1_800_000 }],
+  },
+  projects: {
+    models: [
+      { url: '/models/project-1.glb', bytes: 900_000 },
+      { url: '/models/project-2.glb', bytes: 900_000 },
+      { url: '/models/project-3.glb', bytes: 900_000 },
+    ],
+    textures: [
+      { url: '/textures/project-1-thumb.jpg', bytes: 60_000 },
+      { url: '/textures/project-2-thumb.jpg', bytes: 60_000 },
+      { url: '/textures/project-3-thumb.jpg', bytes: 60_000 },
+    ],
+  },
+};
@@ -0,0 +1,205 @@
+/**
+ * AccessibleMirror.ts
+ * Off-screen DOM list mirroring the interactive 3D objects of the current scene
+ * Constitution Principle V: Accessibility & Input Gracefulness (keyboard and screen reader parity)
+ */
+
+import type * as THREE from 'three';
+import { CameraController } from './CameraController';
+import { InteractionManager } from './InteractionManager';
+import type { AccessibleOptions } from '../types/Interaction';
+
+export interface AccessibleMirrorOptions {
+  frameOnFocus?: boolean; // move the camera to the focused object (default: true)
+  framePadding?: number; // see FrameOptions.padding (default: 0.4)
+}
+
+interface MirrorItem {
+  object: THREE.Object3D;
+  element: HTMLLIElement;
+  button: HTMLButtonElement;
+  description: HTMLSpanElement;
+}
+
+/**
+ * Every object registered with `accessible` options gets a focusable button, in registration
+ * order: Tab reaches it, Enter/Space clicks the object and focus frames it with the camera.
+ * A polite live region announces what changed (see announce).
+ */
+export class AccessibleMirror {
+  private cameraController: CameraController;
+  private interactions: InteractionManager;
+  private options: Required<AccessibleMirrorOptions>;
+
+  private root: HTMLDivElement;
+  private list: HTMLUListElement;
+  private liveRegion: HTMLDivElement;
+  private items: Map<THREE.Object3D, MirrorItem> = new Map();
+  private focused: THREE.Object3D | null = null;
+  private announceTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextId: number = 0;
+  private onFocusChangeCallback: ((object: THREE.Object3D | null) => void) | null = null;
+
+  constructor(
+    cameraController: CameraController,
+    container: HTMLElement,
+    options: AccessibleMirrorOptions = {}
+  ) {
+    this.cameraController = cameraController;
+    this.interactions = InteractionManager.getInstance();
+    this.options = {
+      frameOnFocus: options.frameOnFocus ?? true,
+      framePadding: options.framePadding ?? 0.4,
+    };
+
+    this.root = document.createElement('div');
+    this.root.className = 'a11y-mirror';
+
+    this.list = document.createElement('ul');
+    this.list.setAttribute('aria-label', 'Interactive objects');
+
+    this.liveRegion = document.createElement('div');
+    this.liveRegion.className = 'a11y-live';
+    this.liveRegion.setAttribute('role', 'status');
+    this.liveRegion.setAttribute('aria-live', 'polite');
+
+    this.root.append(this.list, this.liveRegion);
+    container.appendChild(this.root);
+
+    this.interactions.setOnRegistrationChange(this.sync);
+    this.sync();
+  }
+
+  /**
+   * Read a message out through the live region
+   * The region is cleared first so repeating the same message is announced again.
+   */
+  announce(message: string): void {
+    if (this.announceTimer !== null) clearTimeout(this.announceTimer);
+    this.liveRegion.textContent = '';
+    this.announceTimer = setTimeout(() => {
+      this.liveRegion.textContent = message;
+      this.announceTimer = null;
+    }, 100);
+  }
+
+  /**
+   * Get the object whose button has keyboard focus, or null
+   */
+  getFocused(): THREE.Object3D | null {
+    return this.focused;
+  }
+
+  /**
+   * Set callback for focus moving to an object, or leaving the list (null)
+   */
+  setOnFocusChange(callback: (object: THREE.Object3D | null) => void): void {
+    this.onFocusChangeCallback = callback;
+  }
+
+  /**
+   * Remove the DOM and stop following registrations
+   */
+  dispose(): void {
+    this.interactions.setOnRegistrationChange(null);
+    if (this.announceTimer !== null) clearTimeout(this.announceTimer);
+    this.announceTimer = null;
+    this.items.forEach((item) => this.removeItem(item));
+    this.root.remove();
+  }
+
+  /**
+   * Rebuild the list to match InteractionManager, keeping existing buttons (and focus)
+   */
+  private sync = (): void => {
+    const objects = this.interactions.getAccessibleObjects();
+    const current = new Set(objects.map(({ object }) => object));
+
+    this.items.forEach((item, object) => {
+      if (!current.has(object)) this.removeItem(item);
+    });
+
+    objects.forEach(({ object, accessible }) => {
+      const item = this.items.get(object) ?? this.createItem(object);
+      this.updateItem(item, accessible);
+      // appendChild moves existing nodes, so this also fixes the order
+      this.list.appendChild(item.element);
+    });
+  };
+
+  /**
+   * Create the list entry and button for an object
+   */
+  private createItem(object: THREE.Object3D): MirrorItem {
+    const element = document.createElement('li');
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'a11y-object';
+
+    const description = document.createElement('span');
+    description.id = `a11y-description-${this.nextId++}`;
+    description.hidden = true;
+
+    // <button> already turns Enter and Space into click
+    button.addEventListener('click', () => this.interactions.activate(object));
+    button.addEventListener('focus', () => this.handleFocus(object));
+    button.addEventListener('blur', this.handleBlur);
+
+    element.append(button, description);
+    const item: MirrorItem = { object, element, button, description };
+    this.items.set(object, item);
+    return item;
+  }
+
+  /**
+   * Apply a registration's name, description and role to its button
+   */
+  private updateItem(item: MirrorItem, accessible: AccessibleOptions): void {
+    item.button.textContent = accessible.label;
+
+    if (accessible.role === 'link') item.button.setAttribute('role', 'link');
+    else item.button.removeAttribute('role');
+
+    item.description.textContent = accessible.description ?? '';
+    if (accessible.description) {
+      item.button.setAttribute('aria-describedby', item.description.id);
+    } else {
+      item.button.removeAttribute('aria-describedby');
+    }
+  }
+
+  /**
+   * Remove an object's entry; focus on it is treated as leaving the list
+   */
+  private removeItem(item: MirrorItem): void {
+    this.items.delete(item.object);
+    item.element.remove();
+    if (this.focused === item.object) {
+      this.focused = null;
+      this.onFocusChangeCallback?.(null);
+    }
+  }
+
+  /**
+   * Frame a newly focused object
+   */
+  private handleFocus(object: THREE.Object3D): void {
+    this.focused = object;
+    this.onFocusChangeCallback?.(object);
+    if (!this.options.frameOnFocus) return;
+
+    this.cameraController
+      .frameObject(object, { padding: this.options.framePadding })
+      .catch((error) => console.warn('Cannot frame focused object:', error));
+  }
+
+  /**
+   * Report focus leaving the list; moving between its buttons is not a change
+   */
+  private handleBlur = (event: FocusEvent): void => {
+    const next = event.relatedTarget;
+    if (next instanceof Node && this.list.contains(next)) return;
+    this.focused = null;
+    this.onFocusChangeCallback?.(null);
+  };
+}
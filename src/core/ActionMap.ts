@@ -0,0 +1,376 @@
+/**
+ * ActionMap.ts
+ * Typed actions on top of InputHandler, with rebinding saved to localStorage
+ * Constitution Principle V: Accessibility & Input Gracefulness (any device, any binding)
+ */
+
+import type { InputHandler } from './InputHandler';
+import {
+  GESTURE_TYPES,
+  INPUT_ACTIONS,
+  type ActionBindings,
+  type ActionState,
+  type BindingConflict,
+  type GestureType,
+  type InputAction,
+  type InputBinding,
+} from '../types/InputActions';
+
+export const DEFAULT_BINDINGS_STORAGE_KEY = 'hun-bot-bindings';
+
+/**
+ * Defaults; gamepad indices follow the standard mapping (see GAMEPAD_BUTTONS)
+ */
+export const DEFAULT_BINDINGS: Readonly<ActionBindings> = {
+  nextSection: [
+    { device: 'key', key: 'pagedown' },
+    { device: 'gesture', gesture: 'swipeUp' },
+    { device: 'gamepad', button: 5 }, // right bumper
+    { device: 'gamepad', button: 13 }, // D-pad down
+    { device: 'gamepad', button: 15 }, // D-pad right
+  ],
+  prevSection: [
+    { device: 'key', key: 'pageup' },
+    { device: 'gesture', gesture: 'swipeDown' },
+    { device: 'gamepad', button: 4 }, // left bumper
+    { device: 'gamepad', button: 12 }, // D-pad up
+    { device: 'gamepad', button: 14 }, // D-pad left
+  ],
+  select: [
+    { device: 'key', key: 'enter' },
+    { device: 'key', key: ' ' },
+    { device: 'gamepad', button: 0 }, // A / Cross
+  ],
+  // No mouse back button: the browser already goes back in history, and Router follows it
+  back: [
+    { device: 'key', key: 'escape' },
+    { device: 'gamepad', button: 1 }, // B / Circle
+  ],
+  toggleOverlay: [
+    { device: 'key', key: 'o' },
+    { device: 'gamepad', button: 9 }, // Start / Options
+  ],
+};
+
+export interface ActionMapOptions {
+  storageKey?: string; // localStorage key (default: DEFAULT_BINDINGS_STORAGE_KEY)
+  storage?: Storage | null; // null disables persistence (default: window.localStorage)
+}
+
+// Wheel distance (pixels) that counts as one notch
+const WHEEL_NOTCH = 40;
+
+export class ActionMap {
+  private input: InputHandler;
+  private storageKey: string;
+  private storage: Storage | null;
+  private bindings: ActionBindings;
+
+  private states = {} as Record<InputAction, ActionState>;
+  // Input counters seen at the previous update, to catch presses shorter than a frame
+  private lastCounts: Map<string, number> = new Map();
+  private onActionCallback: ((action: InputAction, edge: 'pressed' | 'released') => void) | null =
+    null;
+
+  constructor(input: InputHandler, options: ActionMapOptions = {}) {
+    this.input = input;
+    this.storageKey = options.storageKey ?? DEFAULT_BINDINGS_STORAGE_KEY;
+    this.storage = options.storage === undefined ? ActionMap.defaultStorage() : options.storage;
+    this.bindings = this.loadBindings();
+
+    INPUT_ACTIONS.forEach((action) => {
+      this.states[action] = { pressed: false, held: false, released: false };
+    });
+    this.snapshotCounts();
+  }
+
+  /**
+   * Sample every binding and compute pressed/held/released
+   * Call once per frame, after InputHandler.update has polled the gamepads.
+   */
+  update(): void {
+    INPUT_ACTIONS.forEach((action) => {
+      const state = this.states[action];
+      const active = this.bindings[action].some((binding) => this.isActive(binding));
+
+      state.pressed = active && !state.held;
+      state.released = !active && state.held;
+      state.held = active;
+
+      if (state.pressed) this.onActionCallback?.(action, 'pressed');
+      if (state.released) this.onActionCallback?.(action, 'released');
+    });
+
+    this.snapshotCounts();
+  }
+
+  /**
+   * Get an action's state for this frame
+   */
+  getState(action: InputAction): Readonly<ActionState> {
+    return { ...this.states[action] };
+  }
+
+  /**
+   * Check if an action became active this frame
+   */
+  isPressed(action: InputAction): boolean {
+    return this.states[action].pressed;
+  }
+
+  /**
+   * Check if an action is active this frame
+   */
+  isHeld(action: InputAction): boolean {
+    return this.states[action].held;
+  }
+
+  /**
+   * Check if an action stopped being active this frame
+   */
+  isReleased(action: InputAction): boolean {
+    return this.states[action].released;
+  }
+
+  /**
+   * Set callback for pressed/released edges (fired from update)
+   */
+  setOnAction(callback: (action: InputAction, edge: 'pressed' | 'released') => void): void {
+    this.onActionCallback = callback;
+  }
+
+  /**
+   * Get the bindings of one action
+   */
+  getBindings(action: InputAction): InputBinding[] {
+    return this.bindings[action].map((binding) => ({ ...binding }));
+  }
+
+  /**
+   * Add a binding to an action and save
+   * If another action already uses the input, nothing changes and the conflicting
+   * actions are returned, unless `force` moves the input over to this action.
+   */
+  bind(action: InputAction, binding: InputBinding, force: boolean = false): InputAction[] {
+    const conflicts = INPUT_ACTIONS.filter(
+      (other) =>
+        other !== action && this.bindings[other].some((existing) => isSameInput(existing, binding))
+    );
+    if (conflicts.length > 0 && !force) return conflicts;
+
+    conflicts.forEach((other) => {
+      this.bindings[other] = this.bindings[other].filter(
+        (existing) => !isSameInput(existing, binding)
+      );
+    });
+    if (!this.bindings[action].some((existing) => isSameInput(existing, binding))) {
+      this.bindings[action].push({ ...binding });
+    }
+    this.commitBindings();
+    return conflicts;
+  }
+
+  /**
+   * Remove a binding from an action and save
+   */
+  unbind(action: InputAction, binding: InputBinding): void {
+    this.bindings[action] = this.bindings[action].filter(
+      (existing) => !isSameInput(existing, binding)
+    );
+    this.commitBindings();
+  }
+
+  /**
+   * Restore default bindings (one action, or all) and save
+   */
+  resetBindings(action?: InputAction): void {
+    const actions = action ? [action] : INPUT_ACTIONS;
+    actions.forEach((name) => {
+      this.bindings[name] = DEFAULT_BINDINGS[name].map((binding) => ({ ...binding }));
+    });
+    this.commitBindings();
+  }
+
+  /**
+   * Find inputs bound to more than one action
+   */
+  findConflicts(): BindingConflict[] {
+    const conflicts: BindingConflict[] = [];
+    INPUT_ACTIONS.forEach((action) => {
+      this.bindings[action].forEach((binding) => {
+        const known = conflicts.find((conflict) => isSameInput(conflict.binding, binding));
+        if (known) {
+          if (!known.actions.includes(action)) known.actions.push(action);
+        } else {
+          conflicts.push({ binding: { ...binding }, actions: [action] });
+        }
+      });
+    });
+    return conflicts.filter((conflict) => conflict.actions.length > 1);
+  }
+
+  /**
+   * Check a binding against this frame's input
+   * Counters catch presses that started and ended between two updates.
+   */
+  private isActive(binding: InputBinding): boolean {
+    switch (binding.device) {
+      case 'key':
+        return (
+          this.input.isKeyPressed(binding.key) ||
+          this.input.getKeyPressCount(binding.key) !== this.lastCounts.get(countId(binding))
+        );
+      case 'pointer':
+        return (
+          this.input.isButtonPressed(binding.button) ||
+          this.input.getButtonPressCount(binding.button) !== this.lastCounts.get(countId(binding))
+        );
+      case 'wheel': {
+        const total = this.input.getWheelTotal()[binding.direction];
+        return total - (this.lastCounts.get(countId(binding)) ?? 0) >= WHEEL_NOTCH;
+      }
+      case 'gesture':
+        return (
+          this.input.getGestureCount(binding.gesture) !== this.lastCounts.get(countId(binding))
+        );
+      case 'gamepad':
+        return this.input.isGamepadButtonPressed(binding.button);
+    }
+  }
+
+  /**
+   * Remember counters so the next update sees only new presses
+   */
+  private snapshotCounts(): void {
+    INPUT_ACTIONS.forEach((action) => {
+      this.bindings[action].forEach((binding) => {
+        const id = countId(binding);
+        switch (binding.device) {
+          case 'key':
+            this.lastCounts.set(id, this.input.getKeyPressCount(binding.key));
+            break;
+          case 'pointer':
+            this.lastCounts.set(id, this.input.getButtonPressCount(binding.button));
+            break;
+          case 'wheel': {
+            // Leftover scrolling below a notch carries over to the next frame
+            const total = this.input.getWheelTotal()[binding.direction];
+            const last = this.lastCounts.get(id) ?? total;
+            this.lastCounts.set(id, total - last >= WHEEL_NOTCH ? total : last);
+            break;
+          }
+          case 'gesture':
+            this.lastCounts.set(id, this.input.getGestureCount(binding.gesture));
+            break;
+          case 'gamepad':
+            break;
+        }
+      });
+    });
+  }
+
+  /**
+   * Read saved bindings, falling back to defaults per action
+   */
+  private loadBindings(): ActionBindings {
+    const bindings = {} as ActionBindings;
+    INPUT_ACTIONS.forEach((action) => {
+      bindings[action] = DEFAULT_BINDINGS[action].map((binding) => ({ ...binding }));
+    });
+
+    const raw = this.safely(() => this.storage?.getItem(this.storageKey) ?? null);
+    if (!raw) return bindings;
+
+    try {
+      const saved = JSON.parse(raw) as unknown;
+      if (typeof saved !== 'object' || saved === null) throw new Error('not an object');
+
+      INPUT_ACTIONS.forEach((action) => {
+        const list = (saved as Record<string, unknown>)[action];
+        if (Array.isArray(list)) bindings[action] = list.filter(isBinding);
+      });
+    } catch (error) {
+      console.warn(`Ignoring saved input bindings under "${this.storageKey}":`, error);
+    }
+    return bindings;
+  }
+
+  /**
+   * Start counting new bindings from now, then save
+   * Storage may be full or blocked; bindings then last for the session.
+   */
+  private commitBindings(): void {
+    this.snapshotCounts();
+    this.safely(() => this.storage?.setItem(this.storageKey, JSON.stringify(this.bindings)));
+  }
+
+  /**
+   * Run a storage call, reporting failures instead of throwing
+   */
+  private safely<T>(operation: () => T): T | null {
+    try {
+      return operation();
+    } catch (error) {
+      console.warn('Input binding storage unavailable:', error);
+      return null;
+    }
+  }
+
+  /**
+   * localStorage, or null where it is blocked (e.g. some private modes)
+   */
+  private static defaultStorage(): Storage | null {
+    try {
+      return typeof window === 'undefined' ? null : window.localStorage;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Check if two bindings describe the same physical input
+ */
+function isSameInput(a: InputBinding, b: InputBinding): boolean {
+  return countId(a) === countId(b);
+}
+
+/**
+ * Stable identifier of a binding's input
+ */
+function countId(binding: InputBinding): string {
+  switch (binding.device) {
+    case 'key':
+      return `key:${binding.key.toLowerCase()}`;
+    case 'pointer':
+      return `pointer:${binding.button}`;
+    case 'wheel':
+      return `wheel:${binding.direction}`;
+    case 'gesture':
+      return `gesture:${binding.gesture}`;
+    case 'gamepad':
+      return `gamepad:${binding.button}`;
+  }
+}
+
+/**
+ * Validate a binding read from storage
+ */
+function isBinding(value: unknown): value is InputBinding {
+  if (typeof value !== 'object' || value === null) return false;
+  const binding = value as Record<string, unknown>;
+
+  switch (binding.device) {
+    case 'key':
+      return typeof binding.key === 'string' && binding.key.length > 0;
+    case 'pointer':
+    case 'gamepad':
+      return Number.isInteger(binding.button) && (binding.button as number) >= 0;
+    case 'wheel':
+      return binding.direction === 'up' || binding.direction === 'down';
+    case 'gesture':
+      return GESTURE_TYPES.includes(binding.gesture as GestureType);
+    default:
+      return false;
+  }
+}
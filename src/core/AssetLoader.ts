@@ -8,7 +8,52 @@
 import * as THREE from 'three';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import type { GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
+import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js';
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js';
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils.js';
 import { ResourceDisposer } from '../utils/ResourceDisposer';
+import { MemoryEstimator } from '../utils/MemoryEstimator';
+import { FileDownloader } from '../utils/FileDownloader';
+import { EnvironmentMapLoader } from './loaders/EnvironmentMapLoader';
+import { AudioBufferLoader } from './loaders/AudioBufferLoader';
+import { JSONDataLoader } from './loaders/JSONDataLoader';
+import { MSDFFontLoader } from './loaders/MSDFFontLoader';
+import type { PersistentAssetCache } from './PersistentAssetCache';
+import type { AssetManifest, AssetManifestGroup } from '../types/AssetManifest';
+import type { AssetKind, AssetLoaderPlugin, AssetTypeMap } from '../types/AssetLoaderPlugin';
+
+// Constitution Principle II: 64 MB texture memory budget
+export const DEFAULT_MEMORY_BUDGET_BYTES = 64 * 1024 * 1024;
+
+// Decoder binaries are copied from three/examples/jsm/libs by scripts/copy-decoders.mjs
+export const DEFAULT_DRACO_DECODER_PATH = '/decoders/draco/';
+export const DEFAULT_BASIS_TRANSCODER_PATH = '/decoders/basis/';
+
+export type DecoderKind = 'draco' | 'meshopt' | 'ktx2';
+
+export interface DecoderOptions {
+  renderer?: THREE.WebGLRenderer; // required for KTX2: picks ASTC/ETC2/BC7/S3TC/PVRTC support
+  dracoDecoderPath?: string | null; // null disables Draco (default: DEFAULT_DRACO_DECODER_PATH)
+  basisTranscoderPath?: string | null; // null disables KTX2 (default: DEFAULT_BASIS_TRANSCODER_PATH)
+  meshopt?: boolean; // default: true
+}
+
+/**
+ * Raised when an asset needs a decoder that is not configured or failed to load
+ * Not retried: the same decoder will fail again.
+ */
+export class AssetDecoderError extends Error {
+  readonly decoder: DecoderKind;
+  readonly url: string;
+
+  constructor(decoder: DecoderKind, url: string, message: string) {
+    super(message);
+    this.name = 'AssetDecoderError';
+    this.decoder = decoder;
+    this.url = url;
+  }
+}
 
 export interface LoadProgressEvent {
   url: string;
@@ -17,19 +62,218 @@ export interface LoadProgressEvent {
   progress: number; // 0-1
 }
 
+// Higher values are dequeued first
+export const LoadPriority = {
+  Preload: 0, // speculative loads for neighboring sections
+  Normal: 1,
+  Current: 2, // assets of the section being shown
+} as const;
+
+export interface LoadOptions {
+  maxRetries?: number; // default: 3
+  priority?: number; // see LoadPriority (default: Normal)
+  signal?: AbortSignal; // cancels this caller's interest; shared downloads stop when all cancel
+  onProgress?: (loaded: number, total: number) => void; // bytes of this file, when known
+  version?: string; // persistent cache version (default: the cache's content version)
+}
+
+export interface AcquireModelOptions extends LoadOptions {
+  clone?: boolean; // return an independent copy of gltf.scene (geometry/materials stay shared)
+}
+
+/**
+ * Create the error used to reject cancelled loads
+ */
+export function createAbortError(url: string): DOMException {
+  return new DOMException(`Load aborted: ${url}`, 'AbortError');
+}
+
+/**
+ * Check whether an error comes from a cancelled load
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+export interface AssetEvictionEvent {
+  url: string;
+  kind: AssetKind;
+  bytes: number; // estimated GPU bytes freed
+  textureBytes: number; // cached texture bytes after eviction, compared to budgetBytes
+  budgetBytes: number;
+}
+
+export interface AssetMemoryUsage {
+  models: number; // cached model count
+  textures: number; // cached texture count
+  total: number;
+  modelBytes: number; // geometry + embedded textures
+  textureBytes: number; // textures of every kind, including those in models (the budgeted figure)
+  totalBytes: number;
+  byKind: Partial<Record<AssetKind, { count: number; bytes: number }>>;
+  budgetBytes: number | null; // texture budget
+}
+
+export interface GroupProgressEvent {
+  groupId: string;
+  url: string; // asset that triggered the update
+  loadedBytes: number; // weighted by expected sizes
+  totalBytes: number;
+  progress: number; // 0-1
+}
+
+export interface GroupCompleteEvent {
+  groupId: string;
+  loaded: string[];
+  failed: string[]; // includes optional extras that failed
+}
+
+export interface GroupLoadOptions {
+  owner?: string; // acquire assets for this owner instead of leaving them unowned
+  priority?: number;
+  signal?: AbortSignal;
+  onProgress?: (event: GroupProgressEvent) => void;
+  onComplete?: (event: GroupCompleteEvent) => void;
+}
+
+export interface LoadedAssetGroup {
+  groupId: string;
+  models: Map<string, GLTF>;
+  textures: Map<string, THREE.Texture>;
+  assets: Map<string, unknown>; // every loaded asset, including extras of other kinds
+  failed: string[];
+}
+
+// owner id (e.g. Scene id) -> number of outstanding acquisitions
+type OwnerCounts = Map<string, number>;
+
+// A download shared by every caller requesting the same URL
+interface InFlightLoad {
+  promise: Promise<unknown>;
+  controller: AbortController; // aborted once every subscriber has cancelled
+  subscribers: number;
+  task: QueuedLoad;
+  progressListeners: Set<(loaded: number, total: number) => void>;
+}
+
+interface QueuedLoad {
+  priority: number;
+  sequence: number; // FIFO within a priority
+  started: boolean;
+  start: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Byte-weighted progress for one loading group
+ * Assets without an expected size are weighted by their reported size, or the
+ * average known weight until a size is reported.
+ */
+class GroupProgressTracker {
+  private weights: Map<string, number | null> = new Map();
+  private fractions: Map<string, number> = new Map();
+
+  constructor(
+    private groupId: string,
+    assets: Array<{ url: string; bytes?: number }>,
+    private emit: (event: GroupProgressEvent) => void
+  ) {
+    assets.forEach(({ url, bytes }) => {
+      this.weights.set(url, bytes !== undefined && bytes > 0 ? bytes : null);
+      this.fractions.set(url, 0);
+    });
+  }
+
+  update(url: string, loaded: number, total: number): void {
+    if (total > 0) {
+      if (this.weights.get(url) === null) this.weights.set(url, total);
+      this.fractions.set(url, Math.min(loaded / total, 1));
+    }
+    this.report(url);
+  }
+
+  complete(url: string): void {
+    this.fractions.set(url, 1);
+    this.report(url);
+  }
+
+  private report(url: string): void {
+    const known = [...this.weights.values()].filter((w): w is number => w !== null);
+    const fallback = known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : 1;
+
+    let totalBytes = 0;
+    let loadedBytes = 0;
+    this.weights.forEach((weight, assetUrl) => {
+      const bytes = weight ?? fallback;
+      totalBytes += bytes;
+      loadedBytes += bytes * (this.fractions.get(assetUrl) ?? 0);
+    });
+
+    this.emit({
+      groupId: this.groupId,
+      url,
+      loadedBytes,
+      totalBytes,
+      progress: totalBytes > 0 ? loadedBytes / totalBytes : 1,
+    });
+  }
+}
+
+interface CachedAsset {
+  kind: AssetKind;
+  url: string;
+  value: AssetTypeMap[AssetKind];
+  loader: AssetLoaderPlugin; // the loader that created it, used for disposal
+  bytes: number;
+  textureBytes: number; // part of bytes counted against the budget
+  lastUsed: number; // monotonic use counter for LRU ordering
+}
+
 export class AssetLoader {
   private static instance: AssetLoader | null = null;
   
   private gltfLoader: GLTFLoader;
   private textureLoader: THREE.TextureLoader;
   private loadingManager: THREE.LoadingManager;
+
+  // Optional compressed asset decoders (see configureDecoders)
+  private dracoLoader: DRACOLoader | null = null;
+  private ktx2Loader: KTX2Loader | null = null;
+  private decoderPaths: Partial<Record<DecoderKind, string>> = {};
   
-  private modelCache: Map<string, GLTF> = new Map();
-  private textureCache: Map<string, THREE.Texture> = new Map();
+  // Loader registry: one plugin per kind, plus extension lookup for load(url)
+  private loaders: Map<AssetKind, AssetLoaderPlugin> = new Map();
+  private extensionKinds: Map<string, AssetKind> = new Map();
+  private renderer: THREE.WebGLRenderer | null = null;
+
+  // Optional offline layer; downloaded and stored files are served to loaders as object URLs
+  private persistentCache: PersistentAssetCache | null = null;
+  private servedUrls: Map<string, string> = new Map();
+
+  // Cached assets with byte estimates and recency, keyed by `${kind}:${url}`
+  private cache: Map<string, CachedAsset> = new Map();
+  private useCounter: number = 0;
+
+  // Reference counts per asset key; assets with owners are never disposed by clearCache()
+  private owners: Map<string, OwnerCounts> = new Map();
+  // Cloned model instances handed out per URL and owner, detached on release
+  private modelInstances: Map<string, Map<string, THREE.Object3D[]>> = new Map();
+
+  private memoryBudgetBytes: number | null = DEFAULT_MEMORY_BUDGET_BYTES;
+
+  // In-flight deduplication and prioritized download queue
+  private inFlight: Map<string, InFlightLoad> = new Map();
+  private loadQueue: QueuedLoad[] = [];
+  private activeLoads: number = 0;
+  private maxConcurrentLoads: number = 4;
+  private queueSequence: number = 0;
   
   private onProgressCallback: ((event: LoadProgressEvent) => void) | null = null;
   private onLoadCallback: (() => void) | null = null;
   private onErrorCallback: ((url: string, error: Error) => void) | null = null;
+  private onEvictCallback: ((event: AssetEvictionEvent) => void) | null = null;
+  private onGroupProgressCallback: ((event: GroupProgressEvent) => void) | null = null;
+  private onGroupCompleteCallback: ((event: GroupCompleteEvent) => void) | null = null;
 
   private constructor() {
     // Create loading manager with callbacks
@@ -58,9 +302,38 @@ export class AssetLoader {
       }
     };
 
+    this.loadingManager.setURLModifier((url) => this.servedUrls.get(url) ?? url);
+
     // Create loaders
     this.gltfLoader = new GLTFLoader(this.loadingManager);
     this.textureLoader = new THREE.TextureLoader(this.loadingManager);
+
+    // Built-in kinds; models and textures go through the decoder-aware loaders above
+    this.registerLoader({
+      kind: 'model',
+      extensions: ['glb', 'gltf'],
+      load: (url, { onProgress }) =>
+        this.gltfLoader
+          .loadAsync(url, (event) => onProgress(event.loaded, event.total))
+          .catch((error: unknown) => {
+            throw this.toDecoderError(url, error) ?? error;
+          }),
+      estimateBytes: (gltf) => MemoryEstimator.estimateObject3DBytes(gltf.scene).totalBytes,
+      estimateTextureBytes: (gltf) =>
+        MemoryEstimator.estimateObject3DBytes(gltf.scene).textureBytes,
+      dispose: (gltf) => ResourceDisposer.disposeObject3D(gltf.scene),
+    });
+    this.registerLoader({
+      kind: 'texture',
+      extensions: ['png', 'jpg', 'jpeg', 'webp', 'avif', 'gif', 'ktx2'],
+      load: (url, { onProgress }) => this.loadTextureFile(url, onProgress),
+      estimateBytes: (texture) => MemoryEstimator.estimateTextureBytes(texture),
+      dispose: (texture) => ResourceDisposer.disposeTexture(texture),
+    });
+    this.registerLoader(new EnvironmentMapLoader());
+    this.registerLoader(new AudioBufferLoader());
+    this.registerLoader(new JSONDataLoader());
+    this.registerLoader(new MSDFFontLoader());
   }
 
   /**
@@ -95,158 +368,1023 @@ export class AssetLoader {
   }
 
   /**
-   * Load GLTF model with caching and retry logic
+   * Set group progress callback (every loadGroup/preloadAssets group, e.g. for the overlay)
+   */
+  setOnGroupProgress(callback: (event: GroupProgressEvent) => void): void {
+    this.onGroupProgressCallback = callback;
+  }
+
+  /**
+   * Set group complete callback
+   */
+  setOnGroupComplete(callback: (event: GroupCompleteEvent) => void): void {
+    this.onGroupCompleteCallback = callback;
+  }
+
+  /**
+   * Set eviction callback (fired when an asset is dropped to stay within budget)
+   */
+  setOnEvict(callback: (event: AssetEvictionEvent) => void): void {
+    this.onEvictCallback = callback;
+  }
+
+  /**
+   * Set the texture memory ceiling for cached assets (null disables eviction)
+   * Textures of every kind count, including those embedded in models; geometry does not.
+   * Least-recently-used assets without owners are evicted when it is exceeded;
+   * use acquireModel/acquireTexture to pin assets a scene is rendering.
+   */
+  setMemoryBudget(maxBytes: number | null): void {
+    this.memoryBudgetBytes = maxBytes;
+    this.enforceMemoryBudget();
+  }
+
+  /**
+   * Register a loader for an asset kind, replacing any previous loader of that kind
+   * Its extensions are used to resolve the kind in load(url).
    */
-  async loadModel(url: string, maxRetries: number = 3): Promise<GLTF> {
+  registerLoader<K extends AssetKind>(plugin: AssetLoaderPlugin<K>): void {
+    const previous = this.loaders.get(plugin.kind);
+    previous?.extensions.forEach((extension) => {
+      if (this.extensionKinds.get(extension) === plugin.kind) {
+        this.extensionKinds.delete(extension);
+      }
+    });
+
+    this.loaders.set(plugin.kind, plugin);
+    plugin.extensions.forEach((extension) => {
+      this.extensionKinds.set(extension.toLowerCase(), plugin.kind);
+    });
+  }
+
+  /**
+   * Check whether a loader is registered for a kind
+   */
+  hasLoader(kind: AssetKind): boolean {
+    return this.loaders.has(kind);
+  }
+
+  /**
+   * Set the renderer used by loaders that need the GPU (PMREM environment maps)
+   */
+  setRenderer(renderer: THREE.WebGLRenderer): void {
+    this.renderer = renderer;
+  }
+
+  /**
+   * Set (or remove, with null) the persistent layer files are read from and stored to
+   */
+  setPersistentCache(cache: PersistentAssetCache | null): void {
+    this.persistentCache = cache;
+  }
+
+  /**
+   * Get the persistent layer, e.g. to inspect or clear stored files
+   */
+  getPersistentCache(): PersistentAssetCache | null {
+    return this.persistentCache;
+  }
+
+  /**
+   * Enable compressed asset decoding
+   * Draco and meshopt decode glTF geometry; KTX2/Basis textures are transcoded to
+   * the best compressed format the renderer supports. Binaries are served locally.
+   * The renderer, when given, is also used for environment maps (see setRenderer).
+   */
+  configureDecoders(options: DecoderOptions = {}): void {
+    const {
+      renderer,
+      dracoDecoderPath = DEFAULT_DRACO_DECODER_PATH,
+      basisTranscoderPath = DEFAULT_BASIS_TRANSCODER_PATH,
+      meshopt = true,
+    } = options;
+
+    if (renderer) this.renderer = renderer;
+
+    // Start from a fresh GLTFLoader so disabled decoders are no longer attached
+    this.disposeDecoders();
+    this.gltfLoader = new GLTFLoader(this.loadingManager);
+
+    if (dracoDecoderPath !== null) {
+      this.dracoLoader = new DRACOLoader(this.loadingManager).setDecoderPath(dracoDecoderPath);
+      this.gltfLoader.setDRACOLoader(this.dracoLoader);
+      this.decoderPaths.draco = dracoDecoderPath;
+    }
+
+    if (meshopt) {
+      this.gltfLoader.setMeshoptDecoder(MeshoptDecoder);
+    }
+
+    if (basisTranscoderPath !== null) {
+      if (!renderer) {
+        console.warn(
+          'KTX2 support needs a renderer to detect compressed texture formats; skipped.'
+        );
+      } else {
+        this.ktx2Loader = new KTX2Loader(this.loadingManager)
+          .setTranscoderPath(basisTranscoderPath)
+          .detectSupport(renderer);
+        this.gltfLoader.setKTX2Loader(this.ktx2Loader);
+        this.decoderPaths.ktx2 = basisTranscoderPath;
+      }
+    }
+  }
+
+  /**
+   * Set how many downloads may run at once (queued loads wait by priority)
+   */
+  setMaxConcurrentLoads(maxConcurrent: number): void {
+    this.maxConcurrentLoads = Math.max(1, Math.floor(maxConcurrent));
+    this.pumpQueue();
+  }
+
+  /**
+   * Load any registered asset kind with caching and retry logic
+   * The kind is resolved from the file extension when omitted.
+   * Concurrent requests for the same URL and kind share one download.
+   */
+  load<K extends AssetKind>(
+    url: string,
+    kind?: K,
+    options: LoadOptions = {}
+  ): Promise<AssetTypeMap[K]> {
+    const resolvedKind = kind ?? this.resolveKind(url);
+    const loader = resolvedKind ? this.loaders.get(resolvedKind) : undefined;
+    if (!resolvedKind || !loader) {
+      return Promise.reject(
+        new Error(
+          kind
+            ? `No loader registered for asset kind "${kind}" (${url})`
+            : `Cannot infer asset kind of ${url}; pass a kind to load()`
+        )
+      );
+    }
+
     // Check cache first
-    if (this.modelCache.has(url)) {
-      return this.modelCache.get(url)!;
+    const key = this.assetKey(resolvedKind, url);
+    const cached = this.cache.get(key);
+    if (cached) {
+      this.touch(key);
+      return Promise.resolve(cached.value as AssetTypeMap[K]);
     }
 
-    let lastError: Error | null = null;
-    
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        const gltf = await new Promise<GLTF>((resolve, reject) => {
-          this.gltfLoader.load(
-            url,
-            (gltf) => resolve(gltf),
-            undefined,
-            (error) => reject(error)
-          );
-        });
+    const { maxRetries = 3, priority = LoadPriority.Normal, signal, onProgress, version } = options;
 
-        // Cache the model
-        this.modelCache.set(url, gltf);
-        return gltf;
-      } catch (error) {
-        lastError = error as Error;
-        console.warn(`Failed to load model ${url} (attempt ${attempt + 1}/${maxRetries}):`, error);
-        
-        // Exponential backoff
-        if (attempt < maxRetries - 1) {
-          await this.delay(Math.pow(2, attempt) * 1000);
+    return this.subscribe<AssetTypeMap[K]>(
+      resolvedKind,
+      url,
+      priority,
+      signal,
+      onProgress,
+      async (loadSignal, report) => {
+        const value = await this.withRetries(resolvedKind, url, maxRetries, loadSignal, () =>
+          this.runLoader(loader, url, loadSignal, report, version)
+        );
+
+        // Every caller cancelled while the request was in flight
+        if (loadSignal.aborted) {
+          loader.dispose(value);
+          throw createAbortError(url);
         }
+
+        // Cache the asset
+        this.track(resolvedKind, url, value, loader);
+        return value as AssetTypeMap[K];
       }
+    );
+  }
+
+  /**
+   * Run a plugin on a file downloaded here, so aborting the signal stops the download
+   * The file comes from the persistent layer when one is set. Requests the plugin makes
+   * itself (e.g. a glTF's .bin and textures) are not abortable.
+   */
+  private async runLoader(
+    loader: AssetLoaderPlugin,
+    url: string,
+    signal: AbortSignal,
+    report: (loaded: number, total: number) => void,
+    version: string | undefined
+  ): Promise<AssetTypeMap[AssetKind]> {
+    const context = { manager: this.loadingManager, renderer: this.renderer, signal };
+
+    if (/^(data|blob):/.test(url)) {
+      return loader.load(url, { ...context, onProgress: report });
     }
 
-    // All retries failed
-    const errorMessage = `Failed to load model ${url} after ${maxRetries} attempts`;
-    if (this.onErrorCallback) {
-      this.onErrorCallback(url, lastError || new Error(errorMessage));
+    const blob = this.persistentCache
+      ? (await this.persistentCache.fetch(url, { version, signal, onProgress: report }))?.blob
+      : await this.downloadFile(url, signal, report);
+    if (!blob) {
+      return loader.load(url, { ...context, onProgress: report });
+    }
+
+    // The loader still sees the original URL (relative resources resolve as usual)
+    const objectUrl = URL.createObjectURL(blob);
+    this.servedUrls.set(url, objectUrl);
+    try {
+      // Download progress was already reported by the persistent layer
+      return await loader.load(url, {
+        ...context,
+        onProgress: () => {
+          // Already complete
+        },
+      });
+    } finally {
+      if (this.servedUrls.get(url) === objectUrl) this.servedUrls.delete(url);
+      URL.revokeObjectURL(objectUrl);
+    }
+  }
+
+  /**
+   * Download a file for runLoader
+   * Resolves null when the request fails before a response (offline, CORS), leaving the
+   * plugin to report the failure with its own loader.
+   */
+  private async downloadFile(
+    url: string,
+    signal: AbortSignal,
+    report: (loaded: number, total: number) => void
+  ): Promise<Blob | null> {
+    try {
+      return await FileDownloader.download(url, signal, report);
+    } catch (error) {
+      if (error instanceof TypeError) return null;
+      throw error;
     }
-    throw new Error(errorMessage);
+  }
+
+  /**
+   * Load GLTF model with caching and retry logic
+   * Concurrent requests for the same URL share one download.
+   */
+  loadModel(url: string, options: LoadOptions = {}): Promise<GLTF> {
+    return this.load(url, 'model', options);
   }
 
   /**
    * Load texture with caching and retry logic
+   * Concurrent requests for the same URL share one download.
    */
-  async loadTexture(url: string, maxRetries: number = 3): Promise<THREE.Texture> {
-    // Check cache first
-    if (this.textureCache.has(url)) {
-      return this.textureCache.get(url)!;
+  loadTexture(url: string, options: LoadOptions = {}): Promise<THREE.Texture> {
+    return this.load(url, 'texture', options);
+  }
+
+  /**
+   * Pick the texture loader for a URL (.ktx2 goes through the Basis transcoder)
+   */
+  private loadTextureFile(
+    url: string,
+    report: (loaded: number, total: number) => void
+  ): Promise<THREE.Texture> {
+    const onProgress = (event: ProgressEvent): void => report(event.loaded, event.total);
+
+    if (!/\.ktx2($|\?)/i.test(url)) {
+      // Image loads do not report progress; completion counts the whole file
+      return this.textureLoader.loadAsync(url, onProgress);
     }
 
-    let lastError: Error | null = null;
-    
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        const texture = await new Promise<THREE.Texture>((resolve, reject) => {
-          this.textureLoader.load(
-            url,
-            (texture) => resolve(texture),
-            undefined,
-            (error) => reject(error)
-          );
-        });
+    if (!this.ktx2Loader) {
+      return Promise.reject(
+        new AssetDecoderError(
+          'ktx2',
+          url,
+          `Cannot load KTX2 texture ${url}: call configureDecoders({ renderer }) first`
+        )
+      );
+    }
 
-        // Cache the texture
-        this.textureCache.set(url, texture);
-        return texture;
-      } catch (error) {
-        lastError = error as Error;
-        console.warn(`Failed to load texture ${url} (attempt ${attempt + 1}/${maxRetries}):`, error);
-        
-        // Exponential backoff
-        if (attempt < maxRetries - 1) {
-          await this.delay(Math.pow(2, attempt) * 1000);
-        }
-      }
+    return this.ktx2Loader.loadAsync(url, onProgress).catch((error: unknown) => {
+      throw this.toDecoderError(url, error) ?? error;
+    });
+  }
+
+  /**
+   * Translate decoder failures from three.js loaders into AssetDecoderError
+   */
+  private toDecoderError(url: string, error: unknown): AssetDecoderError | null {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (message.includes('No DRACOLoader instance provided')) {
+      return new AssetDecoderError(
+        'draco',
+        url,
+        `Model ${url} is Draco-compressed but no Draco decoder is configured (configureDecoders)`
+      );
+    }
+    if (message.includes('setMeshoptDecoder must be called')) {
+      return new AssetDecoderError(
+        'meshopt',
+        url,
+        `Model ${url} is meshopt-compressed but the meshopt decoder is disabled (configureDecoders)`
+      );
+    }
+    if (message.includes('setKTX2Loader must be called')) {
+      return new AssetDecoderError(
+        'ktx2',
+        url,
+        `Model ${url} uses KTX2 textures but no KTX2 transcoder is configured (configureDecoders({ renderer }))`
+      );
     }
 
-    // All retries failed
-    const errorMessage = `Failed to load texture ${url} after ${maxRetries} attempts`;
-    if (this.onErrorCallback) {
-      this.onErrorCallback(url, lastError || new Error(errorMessage));
+    // Decoder binaries missing from the local path (e.g. 404 on draco_decoder.wasm)
+    for (const [decoder, path] of Object.entries(this.decoderPaths) as [DecoderKind, string][]) {
+      if (message.includes(path)) {
+        return new AssetDecoderError(
+          decoder,
+          url,
+          `Failed to load ${decoder} decoder from ${path} while loading ${url}: ${message}`
+        );
+      }
     }
-    throw new Error(errorMessage);
+
+    return null;
+  }
+
+  /**
+   * Release decoder workers
+   */
+  private disposeDecoders(): void {
+    this.dracoLoader?.dispose();
+    this.ktx2Loader?.dispose();
+    this.dracoLoader = null;
+    this.ktx2Loader = null;
+    this.decoderPaths = {};
   }
 
   /**
    * Preload multiple assets
+   * Defaults to LoadPriority.Preload so the active scene's loads go first.
+   * Progress is reported as its own group (default id: 'preload').
    */
   async preloadAssets(
     models: string[] = [],
-    textures: string[] = []
+    textures: string[] = [],
+    options: Omit<GroupLoadOptions, 'owner'> & { groupId?: string } = {}
   ): Promise<{ models: GLTF[]; textures: THREE.Texture[] }> {
-    const [loadedModels, loadedTextures] = await Promise.all([
-      Promise.all(models.map((url) => this.loadModel(url))),
-      Promise.all(textures.map((url) => this.loadTexture(url))),
-    ]);
+    const { groupId = 'preload', ...groupOptions } = options;
+
+    const group = await this.loadGroup(
+      groupId,
+      {
+        models: models.map((url) => ({ url, bytes: 0 })),
+        textures: textures.map((url) => ({ url, bytes: 0 })),
+      },
+      { priority: LoadPriority.Preload, ...groupOptions }
+    );
+
+    if (group.failed.length > 0) {
+      throw new Error(`Failed to preload: ${group.failed.join(', ')}`);
+    }
 
     return {
-      models: loadedModels,
-      textures: loadedTextures,
+      // Nothing failed, so every URL has a value
+      models: models.flatMap((url) => group.models.get(url) ?? []),
+      textures: textures.flatMap((url) => group.textures.get(url) ?? []),
     };
   }
 
+  /**
+   * Load one group of a manifest (usually the group named after a Scene id)
+   */
+  loadManifestGroup(
+    manifest: AssetManifest,
+    groupId: string,
+    options: GroupLoadOptions = {}
+  ): Promise<LoadedAssetGroup> {
+    const group = manifest[groupId];
+    if (!group) {
+      return Promise.reject(new Error(`Asset manifest has no group "${groupId}"`));
+    }
+    return this.loadGroup(groupId, group, options);
+  }
+
+  /**
+   * Load a group of assets with byte-weighted progress scoped to the group
+   * Resolves once every asset has settled; rejects if a required (non-extra)
+   * asset failed or the load was cancelled.
+   */
+  async loadGroup(
+    groupId: string,
+    group: AssetManifestGroup,
+    options: GroupLoadOptions = {}
+  ): Promise<LoadedAssetGroup> {
+    const { owner, priority, signal, onProgress, onComplete } = options;
+
+    const entries = [
+      ...(group.models ?? []).map((asset) => ({
+        ...asset,
+        kind: 'model' as const,
+        optional: false,
+      })),
+      ...(group.textures ?? []).map((asset) => ({
+        ...asset,
+        kind: 'texture' as const,
+        optional: false,
+      })),
+      ...(group.extras ?? []).map((asset) => ({ ...asset, optional: true })),
+    ];
+
+    const tracker = new GroupProgressTracker(groupId, entries, (event) => {
+      onProgress?.(event);
+      this.onGroupProgressCallback?.(event);
+    });
+
+    const result: LoadedAssetGroup = {
+      groupId,
+      models: new Map(),
+      textures: new Map(),
+      assets: new Map(),
+      failed: [],
+    };
+    const loaded: string[] = [];
+    let requiredFailed = false;
+
+    await Promise.all(
+      entries.map(async (entry) => {
+        const loadOptions: LoadOptions = {
+          priority,
+          signal,
+          version: entry.version,
+          onProgress: (bytesLoaded, total) => tracker.update(entry.url, bytesLoaded, total),
+        };
+
+        try {
+          const asset = owner
+            ? await this.acquire(entry.url, owner, entry.kind, loadOptions)
+            : await this.load(entry.url, entry.kind, loadOptions);
+          result.assets.set(entry.url, asset);
+          if (entry.kind === 'model') result.models.set(entry.url, asset as GLTF);
+          if (entry.kind === 'texture') result.textures.set(entry.url, asset as THREE.Texture);
+          loaded.push(entry.url);
+        } catch (error) {
+          if (!isAbortError(error)) {
+            console.warn(`Asset group "${groupId}": failed to load ${entry.url}`, error);
+          }
+          result.failed.push(entry.url);
+          if (!entry.optional) requiredFailed = true;
+        } finally {
+          tracker.complete(entry.url);
+        }
+      })
+    );
+
+    const completeEvent: GroupCompleteEvent = { groupId, loaded, failed: [...result.failed] };
+    onComplete?.(completeEvent);
+    this.onGroupCompleteCallback?.(completeEvent);
+
+    if (signal?.aborted) {
+      throw createAbortError(groupId);
+    }
+    if (requiredFailed) {
+      throw new Error(`Failed to load asset group "${groupId}": ${result.failed.join(', ')}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Load an asset of any kind and register `owner` as one of its users
+   * The asset stays cached until every owner has released it. The owner is registered
+   * before loading, so budget evictions by concurrent loads never take the asset.
+   */
+  async acquire<K extends AssetKind>(
+    url: string,
+    owner: string,
+    kind: K,
+    options: LoadOptions = {}
+  ): Promise<AssetTypeMap[K]> {
+    const key = this.assetKey(kind, url);
+    this.addOwner(key, owner);
+    try {
+      return await this.load(url, kind, options);
+    } catch (error) {
+      // Unless released (or force-cleared) while loading
+      if (this.owners.get(key)?.has(owner)) this.removeOwner(key, url, owner);
+      throw error;
+    }
+  }
+
+  /**
+   * Load a model and register `owner` as one of its users
+   * The model stays cached until every owner has released it.
+   * With `clone: true` the returned GLTF has its own scene graph, so several
+   * scenes can place the same GLB independently.
+   */
+  async acquireModel(url: string, owner: string, options: AcquireModelOptions = {}): Promise<GLTF> {
+    const { clone = false, ...loadOptions } = options;
+    const gltf = await this.acquire(url, owner, 'model', loadOptions);
+
+    if (!clone) return gltf;
+
+    const instance = cloneSkinned(gltf.scene);
+    let instancesByOwner = this.modelInstances.get(url);
+    if (!instancesByOwner) {
+      instancesByOwner = new Map();
+      this.modelInstances.set(url, instancesByOwner);
+    }
+    instancesByOwner.set(owner, [...(instancesByOwner.get(owner) ?? []), instance]);
+
+    return { ...gltf, scene: instance as THREE.Group, scenes: [instance as THREE.Group] };
+  }
+
+  /**
+   * Load a texture and register `owner` as one of its users
+   */
+  acquireTexture(url: string, owner: string, options: LoadOptions = {}): Promise<THREE.Texture> {
+    return this.acquire(url, owner, 'texture', options);
+  }
+
+  /**
+   * Release one acquisition of an asset by `owner`
+   * Disposes the asset once its last owner has released it
+   */
+  release(url: string, owner: string, kind: AssetKind): void {
+    const key = this.assetKey(kind, url);
+    const remainingForOwner = this.removeOwner(key, url, owner);
+    if (remainingForOwner === null) return;
+
+    if (kind === 'model' && remainingForOwner === 0) {
+      this.detachInstances(url, owner);
+    }
+
+    if (!this.owners.has(key)) {
+      this.uncache(key);
+    }
+  }
+
+  /**
+   * Release one acquisition of a model by `owner`
+   * Disposes the model once its last owner has released it
+   */
+  releaseModel(url: string, owner: string): void {
+    this.release(url, owner, 'model');
+  }
+
+  /**
+   * Release one acquisition of a texture by `owner`
+   * Disposes the texture once its last owner has released it
+   */
+  releaseTexture(url: string, owner: string): void {
+    this.release(url, owner, 'texture');
+  }
+
+  /**
+   * Release everything held by `owner` (e.g. when a scene is disposed)
+   */
+  releaseAll(owner: string): void {
+    [...this.cache.entries()].forEach(([key, entry]) => {
+      const count = this.owners.get(key)?.get(owner) ?? 0;
+      for (let i = 0; i < count; i++) this.release(entry.url, owner, entry.kind);
+    });
+  }
+
+  /**
+   * Get the owners currently holding an asset (of any kind unless `kind` is given)
+   */
+  getOwners(url: string, kind?: AssetKind): string[] {
+    const owners = new Set<string>();
+    this.cache.forEach((entry, key) => {
+      if (entry.url !== url || (kind && entry.kind !== kind)) return;
+      this.owners.get(key)?.forEach((_, owner) => owners.add(owner));
+    });
+    return [...owners];
+  }
+
+  /**
+   * Get a cached asset without loading it
+   */
+  getCached<K extends AssetKind>(url: string, kind: K): AssetTypeMap[K] | undefined {
+    const key = this.assetKey(kind, url);
+    const cached = this.cache.get(key);
+    if (!cached) return undefined;
+
+    this.touch(key);
+    return cached.value as AssetTypeMap[K];
+  }
+
   /**
    * Get cached model
+   * Returns the shared instance; use acquireModel with `clone: true` to place it independently
    */
   getCachedModel(url: string): GLTF | undefined {
-    return this.modelCache.get(url);
+    return this.getCached(url, 'model');
   }
 
   /**
    * Get cached texture
    */
   getCachedTexture(url: string): THREE.Texture | undefined {
-    return this.textureCache.get(url);
+    return this.getCached(url, 'texture');
   }
 
   /**
    * Clear cache and dispose resources
+   * Assets that still have owners are kept unless `force` is set
    */
-  clearCache(): void {
-    // Dispose models
-    this.modelCache.forEach((gltf) => {
-      ResourceDisposer.disposeObject3D(gltf.scene);
+  clearCache(force: boolean = false): void {
+    [...this.cache.keys()].forEach((key) => {
+      if (!force && this.owners.has(key)) return;
+      this.uncache(key);
     });
-    this.modelCache.clear();
 
-    // Dispose textures
-    this.textureCache.forEach((texture) => {
-      ResourceDisposer.disposeTexture(texture);
-    });
-    this.textureCache.clear();
+    if (force) {
+      this.owners.clear();
+      this.modelInstances.clear();
+    } else if (this.owners.size > 0) {
+      console.warn(`clearCache kept ${this.owners.size} asset(s) that are still owned`);
+    }
   }
 
   /**
-   * Get memory usage estimate
+   * Get memory usage estimate (entry counts and estimated GPU bytes)
    */
-  getMemoryUsage(): { models: number; textures: number; total: number } {
+  getMemoryUsage(): AssetMemoryUsage {
+    const byKind: AssetMemoryUsage['byKind'] = {};
+    let textureBytes = 0;
+    let totalBytes = 0;
+    this.cache.forEach((cached) => {
+      const usage = (byKind[cached.kind] ??= { count: 0, bytes: 0 });
+      usage.count++;
+      usage.bytes += cached.bytes;
+      textureBytes += cached.textureBytes;
+      totalBytes += cached.bytes;
+    });
+
     return {
-      models: this.modelCache.size,
-      textures: this.textureCache.size,
-      total: this.modelCache.size + this.textureCache.size,
+      models: byKind.model?.count ?? 0,
+      textures: byKind.texture?.count ?? 0,
+      total: this.cache.size,
+      modelBytes: byKind.model?.bytes ?? 0,
+      textureBytes,
+      totalBytes,
+      byKind,
+      budgetBytes: this.memoryBudgetBytes,
     };
   }
 
   /**
-   * Utility: delay for retry backoff
+   * Resolve an asset kind from the URL's file extension
+   */
+  private resolveKind(url: string): AssetKind | null {
+    const path = (url.split(/[?#]/)[0] ?? '').toLowerCase();
+    const dot = path.lastIndexOf('.');
+    if (dot === -1) return null;
+    return this.extensionKinds.get(path.slice(dot + 1)) ?? null;
+  }
+
+  /**
+   * Cache a newly loaded asset and enforce the budget
+   */
+  private track(
+    kind: AssetKind,
+    url: string,
+    value: AssetTypeMap[AssetKind],
+    loader: AssetLoaderPlugin
+  ): void {
+    const key = this.assetKey(kind, url);
+    const bytes = loader.estimateBytes(value);
+    const textureBytes = loader.estimateTextureBytes?.(value) ?? bytes;
+    this.cache.set(key, {
+      kind,
+      url,
+      value,
+      loader,
+      bytes,
+      textureBytes,
+      lastUsed: ++this.useCounter,
+    });
+    // Never evict the asset the caller is about to receive
+    this.enforceMemoryBudget(key);
+  }
+
+  /**
+   * Mark an asset as recently used
+   */
+  private touch(key: string): void {
+    const cached = this.cache.get(key);
+    if (cached) cached.lastUsed = ++this.useCounter;
+  }
+
+  /**
+   * Remove an asset from the cache and dispose it with the loader that created it
+   */
+  private uncache(key: string): CachedAsset | undefined {
+    const cached = this.cache.get(key);
+    if (!cached) return undefined;
+
+    this.cache.delete(key);
+    if (cached.kind === 'model') this.modelInstances.delete(cached.url);
+    cached.loader.dispose(cached.value);
+    return cached;
+  }
+
+  /**
+   * Evict least-recently-used unowned assets until the cached textures fit the budget
+   */
+  private enforceMemoryBudget(protectedKey: string | null = null): void {
+    const budget = this.memoryBudgetBytes;
+    if (budget === null) return;
+
+    let textureBytes = this.getMemoryUsage().textureBytes;
+    if (textureBytes <= budget) return;
+
+    const candidates = [...this.cache.entries()]
+      .filter(([key]) => key !== protectedKey && !this.owners.has(key))
+      .sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+
+    for (const [key, cached] of candidates) {
+      if (textureBytes <= budget) break;
+      // Assets without textures free nothing the budget counts
+      if (cached.textureBytes === 0) continue;
+
+      this.uncache(key);
+      textureBytes -= cached.textureBytes;
+
+      this.onEvictCallback?.({
+        url: cached.url,
+        kind: cached.kind,
+        bytes: cached.bytes,
+        textureBytes,
+        budgetBytes: budget,
+      });
+    }
+
+    if (textureBytes > budget) {
+      console.warn(
+        `Texture memory ${MemoryEstimator.toMB(textureBytes).toFixed(1)}MB exceeds budget ` +
+          `${MemoryEstimator.toMB(budget).toFixed(1)}MB; remaining assets are owned or in use`
+      );
+    }
+  }
+
+  /**
+   * Key for the cache, owner registry and in-flight loads
+   */
+  private assetKey(kind: AssetKind, url: string): string {
+    return `${kind}:${url}`;
+  }
+
+  /**
+   * Increment the acquisition count of `owner` for an asset
+   */
+  private addOwner(key: string, owner: string): void {
+    let owners = this.owners.get(key);
+    if (!owners) {
+      owners = new Map();
+      this.owners.set(key, owners);
+    }
+    owners.set(owner, (owners.get(owner) ?? 0) + 1);
+  }
+
+  /**
+   * Decrement the acquisition count of `owner` for an asset
+   * Returns the owner's remaining count, or null if it held nothing
+   */
+  private removeOwner(key: string, url: string, owner: string): number | null {
+    const owners = this.owners.get(key);
+    const count = owners?.get(owner);
+    if (!owners || count === undefined) {
+      console.warn(`Asset ${url} released by "${owner}" which does not own it`);
+      return null;
+    }
+
+    if (count > 1) {
+      owners.set(owner, count - 1);
+      return count - 1;
+    }
+
+    owners.delete(owner);
+    if (owners.size === 0) this.owners.delete(key);
+    return 0;
+  }
+
+  /**
+   * Remove an owner's cloned instances from their parents
+   */
+  private detachInstances(url: string, owner: string): void {
+    const instancesByOwner = this.modelInstances.get(url);
+    instancesByOwner?.get(owner)?.forEach((instance) => instance.removeFromParent());
+    instancesByOwner?.delete(owner);
+  }
+
+  /**
+   * Join (or start) the shared load for a URL
+   * Each caller's signal only detaches that caller; the underlying load is
+   * aborted when no subscribers remain.
+   */
+  private subscribe<T>(
+    kind: AssetKind,
+    url: string,
+    priority: number,
+    signal: AbortSignal | undefined,
+    onProgress: ((loaded: number, total: number) => void) | undefined,
+    run: (loadSignal: AbortSignal, report: (loaded: number, total: number) => void) => Promise<T>
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError(url));
+    }
+
+    const key = this.assetKey(kind, url);
+    let load = this.inFlight.get(key);
+
+    if (!load || load.controller.signal.aborted) {
+      const controller = new AbortController();
+      const progressListeners = new Set<(loaded: number, total: number) => void>();
+      const report = (loaded: number, total: number): void => {
+        progressListeners.forEach((listener) => listener(loaded, total));
+      };
+
+      const { promise, task } = this.enqueue(priority, controller.signal, url, () =>
+        run(controller.signal, report)
+      );
+
+      const created: InFlightLoad = {
+        promise,
+        controller,
+        subscribers: 0,
+        task,
+        progressListeners,
+      };
+      load = created;
+      this.inFlight.set(key, created);
+
+      promise
+        .finally(() => {
+          if (this.inFlight.get(key) === created) this.inFlight.delete(key);
+        })
+        .catch(() => {
+          // Errors are delivered to subscribers below
+        });
+    } else if (!load.task.started && priority > load.task.priority) {
+      // A more urgent caller joined a queued load
+      load.task.priority = priority;
+    }
+
+    const shared = load;
+    shared.subscribers++;
+    if (onProgress) shared.progressListeners.add(onProgress);
+
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+
+      const onAbort = (): void => {
+        if (settled) return;
+        settled = true;
+        if (onProgress) shared.progressListeners.delete(onProgress);
+        shared.subscribers--;
+        if (shared.subscribers === 0) shared.controller.abort();
+        reject(createAbortError(url));
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      (shared.promise as Promise<T>).then(
+        (value) => {
+          signal?.removeEventListener('abort', onAbort);
+          if (settled) return;
+          settled = true;
+          resolve(value);
+        },
+        (error: unknown) => {
+          signal?.removeEventListener('abort', onAbort);
+          if (settled) return;
+          settled = true;
+          reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      );
+    });
+  }
+
+  /**
+   * Queue a load; it starts when a concurrency slot frees up, highest priority first
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private enqueue<T>(
+    priority: number,
+    signal: AbortSignal,
+    url: string,
+    run: () => Promise<T>
+  ): { promise: Promise<T>; task: QueuedLoad } {
+    let task!: QueuedLoad;
+
+    const promise = new Promise<T>((resolve, reject) => {
+      task = {
+        priority,
+        sequence: this.queueSequence++,
+        started: false,
+        start: () => {
+          task.started = true;
+          this.activeLoads++;
+          run()
+            .then(resolve, reject)
+            .finally(() => {
+              this.activeLoads--;
+              this.pumpQueue();
+            });
+        },
+        cancel: () => reject(createAbortError(url)),
+      };
+    });
+
+    // Drop the load from the queue if it is cancelled before starting
+    signal.addEventListener(
+      'abort',
+      () => {
+        const index = this.loadQueue.indexOf(task);
+        if (index !== -1) {
+          this.loadQueue.splice(index, 1);
+          task.cancel();
+        }
+      },
+      { once: true }
+    );
+
+    this.loadQueue.push(task);
+    this.pumpQueue();
+
+    return { promise, task };
+  }
+
+  /**
+   * Start queued loads while concurrency slots are available
+   */
+  private pumpQueue(): void {
+    while (this.activeLoads < this.maxConcurrentLoads) {
+      let next: QueuedLoad | null = null;
+      for (const candidate of this.loadQueue) {
+        if (
+          !next ||
+          candidate.priority > next.priority ||
+          (candidate.priority === next.priority && candidate.sequence < next.sequence)
+        ) {
+          next = candidate;
+        }
+      }
+      if (!next) return;
+
+      this.loadQueue.splice(this.loadQueue.indexOf(next), 1);
+      next.start();
+    }
+  }
+
+  /**
+   * Run a load attempt with exponential backoff
+   * Cancellation stops further attempts and is never reported as a failure.
+   */
+  private async withRetries<T>(
+    kind: AssetKind,
+    url: string,
+    maxRetries: number,
+    signal: AbortSignal,
+    attempt: () => Promise<T>
+  ): Promise<T> {
+    let lastError: Error | null = null;
+
+    for (let i = 0; i < maxRetries; i++) {
+      if (signal.aborted) throw createAbortError(url);
+
+      try {
+        return await attempt();
+      } catch (error) {
+        if (signal.aborted || isAbortError(error)) throw createAbortError(url);
+
+        // Missing decoders will not appear on retry: report immediately
+        if (error instanceof AssetDecoderError) {
+          this.onErrorCallback?.(url, error);
+          throw error;
+        }
+
+        lastError = error as Error;
+        console.warn(`Failed to load ${kind} ${url} (attempt ${i + 1}/${maxRetries}):`, error);
+
+        // Exponential backoff
+        if (i < maxRetries - 1) {
+          await this.delay(Math.pow(2, i) * 1000, signal);
+        }
+      }
+    }
+
+    // All retries failed
+    const errorMessage = `Failed to load ${kind} ${url} after ${maxRetries} attempts`;
+    if (this.onErrorCallback) {
+      this.onErrorCallback(url, lastError || new Error(errorMessage));
+    }
+    throw new Error(errorMessage);
+  }
+
+  /**
+   * Utility: delay for retry backoff (resolves early if aborted)
+   */
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, ms);
+      function done(): void {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+      signal?.addEventListener('abort', done, { once: true });
+    });
   }
 
   /**
@@ -254,7 +1392,10 @@ export class AssetLoader {
    */
   static dispose(): void {
     if (AssetLoader.instance) {
-      AssetLoader.instance.clearCache();
+      AssetLoader.instance.inFlight.forEach((load) => load.controller.abort());
+      AssetLoader.instance.inFlight.clear();
+      AssetLoader.instance.clearCache(true);
+      AssetLoader.instance.disposeDecoders();
       AssetLoader.instance = null;
     }
   }
@@ -7,6 +7,14 @@
 import * as THREE from 'three';
 import gsap from 'gsap';
 import { ReducedMotion } from '../utils/ReducedMotion';
+import type { CameraRail, CameraRailStop } from './CameraRail';
+import { ShotPlayback } from './ShotPlayback';
+import { ParallaxRig } from './ParallaxRig';
+import { PoseHistory } from './PoseHistory';
+import { PoseCodec } from '../utils/PoseCodec';
+import type { SceneCameraPose } from './SceneManager';
+import { DEFAULT_COLLIDER_LAYER, type CameraConstraints } from '../types/CameraConstraints';
+import type { ShotSequence } from '../types/ShotSequence';
 
 export interface CameraTransitionOptions {
   duration?: number; // seconds (default: 0.6s, constitution: 0.5-0.8s)
@@ -16,28 +24,138 @@ export interface CameraTransitionOptions {
   onComplete?: () => void;
 }
 
+export interface InspectOptions {
+  minDistance?: number; // default: 1
+  maxDistance?: number; // default: 20
+  minPolarAngle?: number; // radians from +Y (default: 0.1)
+  maxPolarAngle?: number; // radians from +Y (default: PI - 0.1)
+  damping?: number; // per second; higher settles faster (default: 8)
+}
+
+export interface FirstPersonOptions {
+  minPitch?: number; // radians, negative looks down (default: -PI / 2 + 0.05)
+  maxPitch?: number; // radians (default: PI / 2 - 0.05)
+  lookDistance?: number; // how far ahead the target is kept (default: 1)
+}
+
+export interface RailOptions {
+  pixelsPerRail?: number; // scroll distance covering the whole rail (default: 4000)
+  smoothing?: number; // per second; how fast the camera catches up with scrolling (default: 6)
+  inertia?: number; // share of scroll speed kept as glide after input stops (default: 0.1)
+  friction?: number; // per second; how fast the glide decays (default: 5)
+}
+
+export interface FrameOptions extends CameraTransitionOptions {
+  fit?: 'box' | 'sphere'; // box: tightest fit; sphere: same distance from any side (default: box)
+  padding?: number; // room around the object, relative to its on-screen size (default: 0.1)
+  direction?: THREE.Vector3; // from the object towards the camera (default: current view direction)
+  instant?: boolean; // jump instead of animating (default: false)
+}
+
+export interface ShotPlaybackOptions {
+  callbacks?: Record<string, () => void>; // run by name from a shot's onStart / onComplete
+  cancelOnInput?: boolean; // pointer, wheel or key input stops playback (default: true)
+}
+
+interface FramingState {
+  bounds: THREE.Box3; // world-space bounds at the time of framing
+  direction: THREE.Vector3; // unit vector from the bounds towards the camera
+  options: FrameOptions;
+  aspect: number; // aspect ratio the pose was computed for
+}
+
+interface RailState {
+  rail: CameraRail;
+  options: Required<RailOptions>;
+  progress: number; // where the camera is
+  goal: number; // where scrolling is heading
+  velocity: number; // progress per second, from inertia
+  snapAccumulator: number; // reduced motion: scroll collected towards the next stop
+  snapCooldown: number; // reduced motion: seconds until the next snap is allowed
+  stopId: string | null; // nearest stop last reported
+  settle: (() => void) | null; // resolver of a pending moveRailToStop
+}
+
+// Look-at distance assumed when the camera has no explicit target yet
+const DEFAULT_TARGET_DISTANCE = 10;
+
+// Detour waypoints tried around blocking colliders, as fractions of the move length
+const DETOUR_SCALES = [0.25, 0.5, 1];
+
+// Reduced motion: scroll (in rail progress) needed to snap one stop, and the pause between snaps
+const RAIL_SNAP_THRESHOLD = 0.02;
+const RAIL_SNAP_COOLDOWN = 0.5;
+
 export class CameraController {
   private camera: THREE.PerspectiveCamera;
   // Timeline and Tween both extend gsap.core.Animation — use the common base type
   private activeTween: gsap.core.Animation | null = null;
+  // Resolver of the promise returned by transitionTo, settled early if the tween is killed
+  private resolveActiveTransition: (() => void) | null = null;
+  // Incremented whenever a transition is cancelled or superseded
+  private transitionSequence: number = 0;
+
+  // Point the camera looks at; transitions and orbiting pivot around it
+  private target: THREE.Vector3 = new THREE.Vector3();
+  // Rotation around the view axis (radians), set by shot sequences and levelled by transitions
+  private orientation = { roll: 0 };
+  // Last frameObject call, refitted on aspect changes until another move takes over
+  private framing: FramingState | null = null;
+
+  // Parallax: a spring offset on top of the base pose, removed and re-applied every frame
+  private parallax: ParallaxRig = new ParallaxRig();
+  private parallaxOffset: THREE.Vector3 = new THREE.Vector3();
+
+  // Bounds and colliders of the current scene (see setConstraints)
+  private constraints: CameraConstraints | null = null;
+  private raycaster: THREE.Raycaster = new THREE.Raycaster();
+
+  // Viewpoints for back()/forward(); inspect gestures are recorded once they settle
+  private history: PoseHistory = new PoseHistory();
+  private bookmarks: Map<string, SceneCameraPose> = new Map();
+  private inspectMoving: boolean = false;
+
+  // Inspect (orbit) mode: input accumulates here and is applied with damping in update()
+  private inspectOptions: Required<InspectOptions> | null = null;
+  private pendingOrbit = { azimuth: 0, polar: 0, dolly: 0 };
+  private pendingPan: THREE.Vector3 = new THREE.Vector3();
+  private spherical: THREE.Spherical = new THREE.Spherical();
+  private offset: THREE.Vector3 = new THREE.Vector3();
+
+  // First-person mode: look and move input accumulates here and is applied in update()
+  private firstPersonOptions: Required<FirstPersonOptions> | null = null;
+  private pendingLook = { yaw: 0, pitch: 0 };
+  private pendingMove: THREE.Vector3 = new THREE.Vector3();
+
+  // Rail mode: scroll scrubs the camera along a spline (see enterRail)
+  private railState: RailState | null = null;
+  private railInput: (() => number) | null = null;
+  private onRailStopChangeCallback: ((stop: CameraRailStop) => void) | null = null;
 
   constructor(camera: THREE.PerspectiveCamera) {
     this.camera = camera;
+    this.syncTargetToView(DEFAULT_TARGET_DISTANCE);
   }
 
   /**
    * Smoothly transition camera to new position and target
+   * Leaves rail mode, since the destination is off the rail. Under constraints the
+   * destination is clamped to the bounds and the path bends around colliders.
+   * Resolves at once without moving in first-person mode.
    */
   transitionTo(
     position: THREE.Vector3,
     target: THREE.Vector3,
     options: CameraTransitionOptions = {}
   ): Promise<void> {
-    // Cancel existing transition
-    if (this.activeTween) {
-      this.activeTween.kill();
-      this.activeTween = null;
-    }
+    // First-person mode owns the camera; scripted moves are skipped until it ends
+    if (this.firstPersonOptions) return Promise.resolve();
+
+    // Cancel existing transition and drop orbit input still being damped
+    this.cancelTransition();
+    this.clearPendingInspectInput();
+    this.exitRail();
+    this.framing = null;
 
     const {
       duration = 0.6,
@@ -51,6 +169,8 @@ export class CameraController {
     const adjustedDuration = ReducedMotion.getAdjustedDuration(duration, 0.01);
 
     return new Promise((resolve) => {
+      this.resolveActiveTransition = resolve;
+
       // Create timeline for parallel position and lookAt transitions
       const timeline = gsap.timeline({
         onStart: () => {
@@ -61,30 +181,51 @@ export class CameraController {
         },
         onComplete: () => {
           this.activeTween = null;
+          this.resolveActiveTransition = null;
           onComplete?.();
           resolve();
         },
       });
 
-      // Animate camera position
-      timeline.to(
-        this.camera.position,
-        {
-          x: position.x,
-          y: position.y,
-          z: position.z,
-          duration: adjustedDuration,
-          ease,
-        },
-        0
-      );
+      // Animate camera position, along a detour if the straight line hits a collider
+      const destination = this.clampToBounds(position.clone());
+      const detour = this.planDetour(this.camera.position, destination);
+      if (detour) {
+        const progress = { t: 0 };
+        timeline.to(
+          progress,
+          {
+            t: 1,
+            duration: adjustedDuration,
+            ease,
+            onUpdate: () => {
+              detour.getPoint(progress.t, this.camera.position);
+            },
+          },
+          0
+        );
+      } else {
+        timeline.to(
+          this.camera.position,
+          {
+            x: destination.x,
+            y: destination.y,
+            z: destination.z,
+            duration: adjustedDuration,
+            ease,
+          },
+          0
+        );
+      }
+
+      // Level any roll left by a shot sequence (before the look-at below applies it)
+      if (this.orientation.roll !== 0) {
+        timeline.to(this.orientation, { roll: 0, duration: adjustedDuration, ease }, 0);
+      }
 
-      // Animate camera lookAt (using a temporary target object)
-      const tempTarget = { x: 0, y: 0, z: 0 };
-      this.camera.getWorldDirection(tempTarget as any);
-      
+      // Animate the look-at point from the current target
       timeline.to(
-        tempTarget,
+        this.target,
         {
           x: target.x,
           y: target.y,
@@ -92,7 +233,7 @@ export class CameraController {
           duration: adjustedDuration,
           ease,
           onUpdate: () => {
-            this.camera.lookAt(tempTarget.x, tempTarget.y, tempTarget.z);
+            this.lookAtTarget();
           },
         },
         0
@@ -104,77 +245,847 @@ export class CameraController {
 
   /**
    * Immediately set camera position and target (no animation)
+   * Leaves rail mode.
    */
   setPosition(position: THREE.Vector3, target?: THREE.Vector3): void {
     // Cancel any active transition
-    if (this.activeTween) {
-      this.activeTween.kill();
-      this.activeTween = null;
-    }
+    this.cancelTransition();
+    this.clearPendingInspectInput();
+    this.exitRail();
+    this.framing = null;
 
+    const distance = this.camera.position.distanceTo(this.target);
     this.camera.position.copy(position);
+    this.clampToBounds(this.camera.position);
+    this.orientation.roll = 0;
     
     if (target) {
-      this.camera.lookAt(target);
+      this.target.copy(target);
+      this.lookAtTarget();
+    } else {
+      // Orientation is kept; the target moves along with the camera
+      this.syncTargetToView(distance);
     }
   }
 
   /**
-   * Get current camera position
+   * Immediately look at a new target point without moving the camera
+   */
+  setTarget(target: THREE.Vector3): void {
+    this.cancelTransition();
+    this.clearPendingInspectInput();
+    this.framing = null;
+
+    this.target.copy(target);
+    this.lookAtTarget();
+  }
+
+  /**
+   * Set the bounds and colliders the camera must respect (null: none)
+   * Applied to later transitions and free (inspect) movement; rails and shot sequences
+   * are authored paths and are not constrained.
+   */
+  setConstraints(constraints: CameraConstraints | null): void {
+    this.constraints = constraints;
+  }
+
+  /**
+   * Get the active constraints
+   */
+  getConstraints(): CameraConstraints | null {
+    return this.constraints;
+  }
+
+  /**
+   * Get current camera position (the base pose, without parallax)
    */
   getPosition(): THREE.Vector3 {
-    return this.camera.position.clone();
+    return this.camera.position.clone().sub(this.parallaxOffset);
   }
 
   /**
-   * Get current camera target (lookAt direction)
+   * Get current camera target (the point being looked at)
    */
   getTarget(): THREE.Vector3 {
+    return this.target.clone();
+  }
+
+  /**
+   * Get current pose (base position, without parallax, and target)
+   */
+  getPose(): SceneCameraPose {
+    return { position: this.getPosition(), target: this.getTarget() };
+  }
+
+  /**
+   * Get current view direction (unit vector)
+   */
+  getViewDirection(): THREE.Vector3 {
     const direction = new THREE.Vector3();
     this.camera.getWorldDirection(direction);
     return direction;
   }
 
   /**
-   * Check if camera is currently transitioning
+   * Move the camera so an object (or world-space box) fills the view
+   * The distance comes from the bounds, both FOVs and the aspect ratio; the pose is
+   * recomputed by updateAspect until another camera move takes over. Leaves rail mode.
+   * Resolves at once without moving in first-person mode.
+   */
+  frameObject(object: THREE.Object3D | THREE.Box3, options: FrameOptions = {}): Promise<void> {
+    if (this.firstPersonOptions) return Promise.resolve();
+
+    const bounds =
+      object instanceof THREE.Box3 ? object.clone() : new THREE.Box3().setFromObject(object, true);
+    if (bounds.isEmpty()) {
+      return Promise.reject(new Error('Cannot frame an object with empty bounds'));
+    }
+
+    const direction = options.direction?.clone() ?? this.camera.position.clone().sub(this.target);
+    if (direction.lengthSq() === 0) direction.set(0, 0, 1);
+    direction.normalize();
+
+    const framing: FramingState = { bounds, direction, options, aspect: this.camera.aspect };
+    const pose = this.computeFraming(framing);
+
+    let transition: Promise<void>;
+    if (options.instant) {
+      this.setPosition(pose.position, pose.target);
+      transition = Promise.resolve();
+    } else {
+      transition = this.transitionTo(pose.position, pose.target, options);
+    }
+    this.framing = framing;
+
+    // The window may have been resized while the camera was on its way
+    return transition.then(() => {
+      if (this.framing === framing && framing.aspect !== this.camera.aspect) this.refit(framing);
+    });
+  }
+
+  /**
+   * Play an authored shot sequence (see src/types/ShotSequence.ts)
+   * Leaves rail mode. Shots start from the current pose; FOV and roll keep their last
+   * shot's values afterwards (the next transition levels the roll). Move durations
+   * follow the reduced motion preference, holds do not. In first-person mode the
+   * playback comes back already cancelled.
+   */
+  playSequence(sequence: ShotSequence, options: ShotPlaybackOptions = {}): ShotPlayback {
+    const suspended = this.firstPersonOptions !== null;
+    if (!suspended) {
+      this.cancelTransition();
+      this.clearPendingInspectInput();
+      this.exitRail();
+      this.framing = null;
+    }
+
+    const { callbacks = {}, cancelOnInput = true } = options;
+    const runCallback = (name: string): void => {
+      const callback = callbacks[name];
+      if (callback) {
+        callback();
+      } else {
+        console.warn(`Shot sequence "${sequence.id}" has no callback named "${name}"`);
+      }
+    };
+
+    const timeline = gsap.timeline({
+      paused: true,
+      onUpdate: () => this.applyShotFrame(),
+    });
+
+    sequence.shots.forEach((shot) => {
+      const start = timeline.duration();
+      const duration = ReducedMotion.getAdjustedDuration(shot.duration, 0.01);
+      const ease = shot.ease ?? 'power2.inOut';
+
+      if (shot.onStart) timeline.call(runCallback, [shot.onStart], start);
+
+      const { position, target } = shot;
+      timeline.to(this.camera.position, { ...position, duration, ease }, start);
+      timeline.to(this.target, { ...target, duration, ease }, start);
+      if (shot.fov !== undefined) {
+        timeline.to(this.camera, { fov: shot.fov, duration, ease }, start);
+      }
+      if (shot.roll !== undefined) {
+        const roll = THREE.MathUtils.degToRad(shot.roll);
+        timeline.to(this.orientation, { roll, duration, ease }, start);
+      }
+
+      if (shot.onComplete) timeline.call(runCallback, [shot.onComplete], start + duration);
+      if (shot.hold) timeline.to({}, { duration: shot.hold }, start + duration);
+    });
+
+    const playback = new ShotPlayback(timeline, {
+      render: () => this.applyShotFrame(),
+      end: () => {
+        if (this.activeTween !== timeline) return;
+        this.activeTween = null;
+        this.resolveActiveTransition = null;
+      },
+      inputTarget: cancelOnInput ? window : null,
+    });
+
+    // The timeline is paused until play(), so cancelling it leaves the camera untouched
+    if (suspended) {
+      playback.cancel();
+      return playback;
+    }
+
+    // Other camera moves cancel the sequence through cancelTransition
+    this.activeTween = timeline;
+    this.resolveActiveTransition = () => playback.cancel();
+    playback.play();
+    return playback;
+  }
+
+  /**
+   * Enter inspect mode: damped orbit, dolly and pan around the current target
+   * Starts from the current pose, so there is no jump; transitionTo can be used
+   * while inspecting and orbiting resumes around the new target. Ignored in
+   * first-person mode.
+   */
+  enterInspect(options: InspectOptions = {}): void {
+    if (this.firstPersonOptions) return;
+    this.exitRail();
+    this.dropParallax();
+    this.inspectOptions = {
+      minDistance: options.minDistance ?? 1,
+      maxDistance: options.maxDistance ?? 20,
+      minPolarAngle: options.minPolarAngle ?? 0.1,
+      maxPolarAngle: options.maxPolarAngle ?? Math.PI - 0.1,
+      damping: options.damping ?? 8,
+    };
+    this.clearPendingInspectInput();
+    this.recordPose();
+  }
+
+  /**
+   * Leave inspect mode; the camera stays where it is
+   */
+  exitInspect(): void {
+    this.inspectOptions = null;
+    this.clearPendingInspectInput();
+  }
+
+  /**
+   * Check if inspect mode is active
+   */
+  isInspecting(): boolean {
+    return this.inspectOptions !== null;
+  }
+
+  /**
+   * Rotate around the target (radians; ignored outside inspect mode)
+   * @param azimuth Positive orbits the camera to the right around the target
+   * @param polar Positive moves the camera up over the target
+   */
+  orbit(azimuth: number, polar: number): void {
+    if (!this.inspectOptions) return;
+    this.framing = null;
+    this.inspectMoving = true;
+    this.pendingOrbit.azimuth += azimuth;
+    this.pendingOrbit.polar -= polar;
+  }
+
+  /**
+   * Move towards (positive) or away from (negative) the target
+   * Logarithmic: 1 roughly divides the distance by e. Ignored outside inspect mode.
+   */
+  dolly(amount: number): void {
+    if (!this.inspectOptions) return;
+    this.framing = null;
+    this.inspectMoving = true;
+    this.pendingOrbit.dolly -= amount;
+  }
+
+  /**
+   * Move camera and target in the view plane, in units of the target distance
+   * Positive values move the view right/up. Ignored outside inspect mode.
+   */
+  pan(deltaX: number, deltaY: number): void {
+    if (!this.inspectOptions) return;
+    this.framing = null;
+    this.inspectMoving = true;
+
+    const distance = this.camera.position.distanceTo(this.target);
+    const right = new THREE.Vector3(1, 0, 0).applyQuaternion(this.camera.quaternion);
+    const up = new THREE.Vector3(0, 1, 0).applyQuaternion(this.camera.quaternion);
+    this.pendingPan
+      .addScaledVector(right, deltaX * distance)
+      .addScaledVector(up, deltaY * distance);
+  }
+
+  /**
+   * Enter first-person mode: the camera turns in place and walks where it looks
+   * Stops any transition or shot sequence and leaves rail and inspect mode. Until
+   * exitFirstPerson, scripted moves are skipped and parallax is off.
+   */
+  enterFirstPerson(options: FirstPersonOptions = {}): void {
+    this.cancelTransition();
+    this.exitRail();
+    this.exitInspect();
+    this.framing = null;
+    this.orientation.roll = 0;
+    this.firstPersonOptions = {
+      minPitch: options.minPitch ?? -Math.PI / 2 + 0.05,
+      maxPitch: options.maxPitch ?? Math.PI / 2 - 0.05,
+      lookDistance: options.lookDistance ?? 1,
+    };
+    this.clearPendingFirstPersonInput();
+    this.syncTargetToView(this.firstPersonOptions.lookDistance);
+    this.recordPose();
+  }
+
+  /**
+   * Leave first-person mode; the camera stays where it is
+   */
+  exitFirstPerson(): void {
+    if (!this.firstPersonOptions) return;
+    this.firstPersonOptions = null;
+    this.clearPendingFirstPersonInput();
+    this.recordPose();
+  }
+
+  /**
+   * Check if first-person mode is active
+   */
+  isFirstPerson(): boolean {
+    return this.firstPersonOptions !== null;
+  }
+
+  /**
+   * Turn the view (radians; ignored outside first-person mode)
+   * @param yaw Positive turns left
+   * @param pitch Positive looks up; clamped to minPitch/maxPitch
+   */
+  look(yaw: number, pitch: number): void {
+    if (!this.firstPersonOptions) return;
+    this.pendingLook.yaw += yaw;
+    this.pendingLook.pitch += pitch;
+  }
+
+  /**
+   * Walk in world units relative to the view (ignored outside first-person mode)
+   * Forward follows the view's heading, level with the ground, so looking up does not
+   * lift the camera; `up` moves along the world up axis. Bounds and colliders apply.
+   */
+  move(forward: number, right: number, up: number = 0): void {
+    if (!this.firstPersonOptions) return;
+
+    const heading = this.getViewDirection().setY(0);
+    if (heading.lengthSq() < 1e-8) heading.set(0, 0, -1);
+    heading.normalize();
+    const side = new THREE.Vector3().crossVectors(heading, this.camera.up).normalize();
+
+    this.pendingMove
+      .addScaledVector(heading, forward)
+      .addScaledVector(side, right)
+      .addScaledVector(this.camera.up, up);
+  }
+
+  /**
+   * Add the current pose to the back/forward history
+   * Inspect gestures record themselves; call this after other moves worth returning to.
+   */
+  recordPose(): void {
+    this.history.record(this.getPose());
+  }
+
+  /**
+   * Animate to the previous pose in history
+   * Resolves false if there is nothing to go back to, or in first-person mode.
+   */
+  back(options: CameraTransitionOptions = {}): Promise<boolean> {
+    if (this.firstPersonOptions) return Promise.resolve(false);
+
+    // An unrecorded pose stays reachable with forward()
+    this.recordPose();
+    const pose = this.history.back();
+    if (!pose) return Promise.resolve(false);
+    return this.transitionTo(pose.position, pose.target, options).then(() => true);
+  }
+
+  /**
+   * Animate to the next pose in history
+   * Resolves false if there is nothing to go forward to, or in first-person mode.
+   */
+  forward(options: CameraTransitionOptions = {}): Promise<boolean> {
+    if (this.firstPersonOptions) return Promise.resolve(false);
+    const pose = this.history.forward();
+    if (!pose) return Promise.resolve(false);
+    return this.transitionTo(pose.position, pose.target, options).then(() => true);
+  }
+
+  /**
+   * Check if back() would move the camera
+   */
+  canGoBack(): boolean {
+    // back() first records an unrecorded pose, which can then be left
+    const current = this.history.getCurrent();
+    return (
+      this.history.canGoBack() || (current !== null && !PoseHistory.isSame(current, this.getPose()))
+    );
+  }
+
+  /**
+   * Check if forward() would move the camera
+   */
+  canGoForward(): boolean {
+    return this.history.canGoForward();
+  }
+
+  /**
+   * Save the current pose under a name (replaces an existing bookmark)
+   */
+  saveBookmark(name: string): void {
+    this.bookmarks.set(name, this.getPose());
+  }
+
+  /**
+   * Animate to a bookmarked pose; resolves false if there is no such bookmark
+   */
+  restoreBookmark(name: string, options: CameraTransitionOptions = {}): Promise<boolean> {
+    const pose = this.bookmarks.get(name);
+    if (!pose) return Promise.resolve(false);
+    return this.goToPose(pose, options);
+  }
+
+  /**
+   * Remove a bookmark
+   */
+  deleteBookmark(name: string): boolean {
+    return this.bookmarks.delete(name);
+  }
+
+  /**
+   * Get bookmark names in the order they were first saved
+   */
+  getBookmarkNames(): string[] {
+    return [...this.bookmarks.keys()];
+  }
+
+  /**
+   * Encode a pose (default: the current one) as a compact, URL-safe string
+   */
+  serializePose(pose: SceneCameraPose = this.getPose()): string {
+    return PoseCodec.encode(pose);
+  }
+
+  /**
+   * Animate to a pose from serializePose, e.g. read from a share URL
+   * Malformed or unusable poses are ignored with a warning and resolve false.
+   */
+  restorePose(serialized: string, options: CameraTransitionOptions = {}): Promise<boolean> {
+    const pose = PoseCodec.decode(serialized);
+    if (!pose) {
+      console.warn(`Ignoring invalid camera pose "${serialized}"`);
+      return Promise.resolve(false);
+    }
+    return this.goToPose(pose, options);
+  }
+
+  /**
+   * Enter rail mode: scroll input scrubs the camera along `rail`
+   * The camera first moves onto the rail at `progress` (default: the stop nearest
+   * to the current position); resolves once it is there. Ignored in first-person mode.
+   */
+  async enterRail(rail: CameraRail, options: RailOptions = {}, progress?: number): Promise<void> {
+    if (this.firstPersonOptions) return;
+
+    const start =
+      progress ?? rail.getNearestStop(rail.getClosestProgress(this.camera.position))?.progress ?? 0;
+    const pose = rail.getPose(start);
+
+    this.exitInspect();
+    const transition = this.transitionTo(pose.position, pose.target);
+    const sequence = this.transitionSequence;
+    await transition;
+
+    // Another move took over before the camera reached the rail
+    if (sequence !== this.transitionSequence) return;
+
+    this.railState = {
+      rail,
+      options: {
+        pixelsPerRail: options.pixelsPerRail ?? 4000,
+        smoothing: options.smoothing ?? 6,
+        inertia: options.inertia ?? 0.1,
+        friction: options.friction ?? 5,
+      },
+      progress: start,
+      goal: start,
+      velocity: 0,
+      snapAccumulator: 0,
+      snapCooldown: 0,
+      stopId: rail.getNearestStop(start)?.id ?? null,
+      settle: null,
+    };
+  }
+
+  /**
+   * Leave rail mode; the camera stays where it is
+   */
+  exitRail(): void {
+    const settle = this.railState?.settle;
+    this.railState = null;
+    settle?.();
+  }
+
+  /**
+   * Check if rail mode is active
+   */
+  isOnRail(): boolean {
+    return this.railState !== null;
+  }
+
+  /**
+   * Get the active rail
+   */
+  getRail(): CameraRail | null {
+    return this.railState?.rail ?? null;
+  }
+
+  /**
+   * Get the camera's progress along the rail (0-1), or null outside rail mode
+   */
+  getRailProgress(): number | null {
+    return this.railState?.progress ?? null;
+  }
+
+  /**
+   * Scrub to a progress value (0-1); glides there unless `instant`
+   */
+  setRailProgress(progress: number, instant: boolean = false): void {
+    const state = this.railState;
+    if (!state) return;
+
+    state.goal = THREE.MathUtils.clamp(progress, 0, 1);
+    state.velocity = 0;
+    if (instant || ReducedMotion.isReduced()) {
+      state.progress = state.goal;
+      this.applyRailPose(state);
+    }
+  }
+
+  /**
+   * Glide along the rail to a named stop
+   * Resolves false if there is no such stop; resolves early if scrolling takes over.
+   */
+  moveRailToStop(id: string, options: { instant?: boolean } = {}): Promise<boolean> {
+    const state = this.railState;
+    const stop = state?.rail.getStop(id);
+    if (!state || !stop) return Promise.resolve(false);
+
+    const previous = state.settle;
+    state.settle = null;
+    previous?.();
+
+    this.setRailProgress(stop.progress, options.instant);
+    if (state.progress === state.goal) return Promise.resolve(true);
+
+    return new Promise((resolve) => {
+      state.settle = () => resolve(true);
+    });
+  }
+
+  /**
+   * Set the scroll source consumed each frame in rail mode
+   * Returns pixels scrolled since the last call (e.g. InputHandler.getScrollDelta)
+   */
+  setRailInput(source: (() => number) | null): void {
+    this.railInput = source;
+  }
+
+  /**
+   * Set callback for when the nearest rail stop changes
+   * Stops passed during moveRailToStop are skipped; only the arrival is reported.
+   */
+  setOnRailStopChange(callback: (stop: CameraRailStop) => void): void {
+    this.onRailStopChangeCallback = callback;
+  }
+
+  /**
+   * Apply damped inspect input, first-person input, rail scrolling and parallax
+   * (call once per frame)
+   */
+  update(delta: number): void {
+    // Always drain the scroll source so input from other modes does not pile up
+    const scroll = this.railInput?.() ?? 0;
+    if (this.isTransitioning()) return;
+
+    // Back to the base pose; parallax is re-applied on top below
+    this.camera.position.sub(this.parallaxOffset);
+    this.parallaxOffset.set(0, 0, 0);
+
+    if (this.railState) {
+      this.updateRail(this.railState, delta, scroll);
+    } else if (this.inspectOptions) {
+      const from = this.camera.position.clone();
+      this.updateInspect(this.inspectOptions, delta);
+      if (this.constrainMove(from, this.camera.position)) this.lookAtTarget();
+    } else if (this.firstPersonOptions) {
+      this.updateFirstPerson(this.firstPersonOptions);
+    }
+
+    this.updateParallax(delta);
+  }
+
+  /**
+   * Get the parallax rig, to set its pointer source, options or device tilt
+   */
+  getParallax(): ParallaxRig {
+    return this.parallax;
+  }
+
+  /**
+   * Offset the camera around its base pose by the parallax spring
+   * Off while inspecting (the offset would feed into the orbit); under reduced motion
+   * and in first-person mode the offset is removed at once instead of springing back.
+   */
+  private updateParallax(delta: number): void {
+    if (ReducedMotion.isReduced() || this.firstPersonOptions) {
+      this.parallax.reset();
+      return;
+    }
+
+    const offset = this.parallax.update(delta, !this.inspectOptions);
+    if (offset.x === 0 && offset.y === 0) return;
+
+    // Camera axes at the base pose
+    this.lookAtTarget();
+    const right = new THREE.Vector3(1, 0, 0).applyQuaternion(this.camera.quaternion);
+    const up = new THREE.Vector3(0, 1, 0).applyQuaternion(this.camera.quaternion);
+
+    this.parallaxOffset.addScaledVector(right, offset.x).addScaledVector(up, offset.y);
+    this.camera.position.add(this.parallaxOffset);
+    this.lookAtTarget();
+  }
+
+  /**
+   * Keep the camera where it is and restart parallax from zero
+   * Used when a transition takes over, so the tween starts from what is on screen.
+   */
+  private dropParallax(): void {
+    this.parallaxOffset.set(0, 0, 0);
+    this.parallax.reset();
+  }
+
+  /**
+   * Animate to a pose, recording both ends in history (false in first-person mode)
+   */
+  private goToPose(pose: SceneCameraPose, options: CameraTransitionOptions): Promise<boolean> {
+    if (this.firstPersonOptions) return Promise.resolve(false);
+    this.recordPose();
+    this.history.record(pose);
+    return this.transitionTo(pose.position, pose.target, options).then(() => true);
+  }
+
+  /**
+   * Apply damped orbit, dolly and pan input
+   */
+  private updateInspect(options: Required<InspectOptions>, delta: number): void {
+    // Time-based damping; reduced motion applies input immediately
+    const t = ReducedMotion.isReduced() ? 1 : 1 - Math.exp(-options.damping * delta);
+
+    const azimuth = this.pendingOrbit.azimuth * t;
+    const polar = this.pendingOrbit.polar * t;
+    const dolly = this.pendingOrbit.dolly * t;
+    this.pendingOrbit.azimuth -= azimuth;
+    this.pendingOrbit.polar -= polar;
+    this.pendingOrbit.dolly -= dolly;
+
+    const pan = this.pendingPan.clone().multiplyScalar(t);
+    this.pendingPan.sub(pan);
+    this.target.add(pan);
+
+    this.offset.copy(this.camera.position).sub(this.target).add(pan);
+    this.spherical.setFromVector3(this.offset);
+    this.spherical.theta += azimuth;
+    this.spherical.phi = THREE.MathUtils.clamp(
+      this.spherical.phi + polar,
+      options.minPolarAngle,
+      options.maxPolarAngle
+    );
+    this.spherical.radius = THREE.MathUtils.clamp(
+      this.spherical.radius * Math.exp(dolly),
+      options.minDistance,
+      options.maxDistance
+    );
+    this.spherical.makeSafe();
+
+    this.offset.setFromSpherical(this.spherical);
+    this.camera.position.copy(this.target).add(this.offset);
+    this.lookAtTarget();
+
+    // A gesture has played out: make it a history entry
+    if (this.inspectMoving && this.isInspectInputSettled()) {
+      this.inspectMoving = false;
+      this.recordPose();
+    }
+  }
+
+  /**
+   * Apply look and move input collected since the last frame
+   * Undamped: look input comes straight from the mouse, and moves are already scaled
+   * by the frame time, so the speed does not depend on the frame rate.
+   */
+  private updateFirstPerson(options: Required<FirstPersonOptions>): void {
+    const direction = this.getViewDirection();
+    const yaw = Math.atan2(-direction.x, -direction.z) + this.pendingLook.yaw;
+    const pitch = THREE.MathUtils.clamp(
+      Math.asin(THREE.MathUtils.clamp(direction.y, -1, 1)) + this.pendingLook.pitch,
+      options.minPitch,
+      options.maxPitch
+    );
+    this.pendingLook.yaw = 0;
+    this.pendingLook.pitch = 0;
+
+    const target = this.camera.position.clone().add(this.pendingMove);
+    this.pendingMove.set(0, 0, 0);
+    this.constrainMove(this.camera.position, target);
+    this.camera.position.copy(target);
+
+    direction.set(
+      -Math.sin(yaw) * Math.cos(pitch),
+      Math.sin(pitch),
+      -Math.cos(yaw) * Math.cos(pitch)
+    );
+    this.target.copy(this.camera.position).addScaledVector(direction, options.lookDistance);
+    this.lookAtTarget();
+  }
+
+  /**
+   * Discard first-person input that has not been applied yet
+   */
+  private clearPendingFirstPersonInput(): void {
+    this.pendingLook.yaw = 0;
+    this.pendingLook.pitch = 0;
+    this.pendingMove.set(0, 0, 0);
+  }
+
+  /**
+   * Check if the remaining damped inspect input is too small to see
+   */
+  private isInspectInputSettled(): boolean {
+    const { azimuth, polar, dolly } = this.pendingOrbit;
+    return (
+      Math.max(Math.abs(azimuth), Math.abs(polar), Math.abs(dolly)) < 1e-4 &&
+      this.pendingPan.lengthSq() < 1e-8
+    );
+  }
+
+  /**
+   * Advance rail progress from scroll input, with smoothing and inertia
+   * Under reduced motion, scrolling snaps from stop to stop instead.
+   */
+  private updateRail(state: RailState, delta: number, scroll: number): void {
+    const input = scroll / state.options.pixelsPerRail;
+
+    // Scrolling takes over from a scripted move
+    if (input !== 0 && state.settle) {
+      const settle = state.settle;
+      state.settle = null;
+      settle();
+    }
+
+    if (ReducedMotion.isReduced()) {
+      state.snapCooldown = Math.max(0, state.snapCooldown - delta);
+      // Swallow the rest of a wheel gesture after a snap
+      state.snapAccumulator = state.snapCooldown > 0 ? 0 : state.snapAccumulator + input;
+
+      if (Math.abs(state.snapAccumulator) >= RAIL_SNAP_THRESHOLD) {
+        const stop = state.rail.getAdjacentStop(state.progress, state.snapAccumulator);
+        if (stop) state.goal = stop.progress;
+        state.snapAccumulator = 0;
+        state.snapCooldown = RAIL_SNAP_COOLDOWN;
+      }
+
+      state.velocity = 0;
+      state.progress = state.goal;
+    } else {
+      const { smoothing, inertia, friction } = state.options;
+
+      if (input !== 0) {
+        state.goal += input;
+        state.velocity = (input / Math.max(delta, 1e-3)) * inertia;
+      } else {
+        state.goal += state.velocity * delta;
+        state.velocity *= Math.exp(-friction * delta);
+        if (Math.abs(state.velocity) < 1e-4) state.velocity = 0;
+      }
+
+      if (state.goal <= 0 || state.goal >= 1) {
+        state.goal = THREE.MathUtils.clamp(state.goal, 0, 1);
+        state.velocity = 0;
+      }
+
+      state.progress += (state.goal - state.progress) * (1 - Math.exp(-smoothing * delta));
+      if (Math.abs(state.goal - state.progress) < 1e-4) state.progress = state.goal;
+    }
+
+    this.applyRailPose(state);
+  }
+
+  /**
+   * Move the camera to the rail pose at the current progress and report stop changes
+   */
+  private applyRailPose(state: RailState): void {
+    const pose = state.rail.getPose(state.progress);
+    this.camera.position.copy(pose.position);
+    this.parallaxOffset.set(0, 0, 0);
+    this.target.copy(pose.target);
+    this.lookAtTarget();
+
+    // Mid-way through moveRailToStop: report only the arrival
+    if (state.settle) {
+      if (state.progress !== state.goal) return;
+      const settle = state.settle;
+      state.settle = null;
+      settle();
+    }
+
+    const stop = state.rail.getNearestStop(state.progress);
+    if (stop && stop.id !== state.stopId) {
+      state.stopId = stop.id;
+      this.onRailStopChangeCallback?.(stop);
+    }
+  }
+
+  /**
+   * Check if camera is currently transitioning (a paused shot sequence counts)
    */
   isTransitioning(): boolean {
-    return this.activeTween !== null && this.activeTween.isActive();
+    return this.activeTween !== null && (this.activeTween.isActive() || this.activeTween.paused());
   }
 
   /**
    * Cancel current transition
+   * The pending transitionTo promise resolves so awaiting callers are not left hanging
    */
   cancelTransition(): void {
+    this.transitionSequence++;
+    this.dropParallax();
+
     if (this.activeTween) {
       this.activeTween.kill();
       this.activeTween = null;
     }
+
+    if (this.resolveActiveTransition) {
+      const resolve = this.resolveActiveTransition;
+      this.resolveActiveTransition = null;
+      resolve();
+    }
   }
 
   /**
-   * Apply parallax offset based on pointer position
-   * For subtle camera movement in response to mouse
+   * Set parallax input (-1 to 1 per axis, e.g. pointer NDC)
+   * The camera springs to a bounded offset around its base pose and returns when the
+   * input is centred; ignored while the parallax rig has a pointer source.
    */
-  applyParallax(
-    pointerX: number,
-    pointerY: number,
-    strength: number = 0.02
-  ): void {
-    // Only apply if not transitioning
-    if (this.isTransitioning()) return;
-
-    const offsetX = pointerX * strength;
-    const offsetY = pointerY * strength;
-
-    // Smoothly interpolate to target offset
-    gsap.to(this.camera.position, {
-      x: `+=${offsetX}`,
-      y: `+=${offsetY}`,
-      duration: 0.5,
-      ease: 'power2.out',
-      overwrite: 'auto',
-    });
+  applyParallax(pointerX: number, pointerY: number): void {
+    this.parallax.setPointer(pointerX, pointerY);
   }
 
   /**
@@ -183,6 +1094,200 @@ export class CameraController {
   updateAspect(width: number, height: number): void {
     this.camera.aspect = width / height;
     this.camera.updateProjectionMatrix();
+
+    // A framing transition in flight is refitted once it lands (see frameObject)
+    if (this.framing && !this.isTransitioning()) this.refit(this.framing);
+  }
+
+  /**
+   * Discard inspect input that has not been applied yet
+   */
+  private clearPendingInspectInput(): void {
+    this.pendingOrbit.azimuth = 0;
+    this.pendingOrbit.polar = 0;
+    this.pendingOrbit.dolly = 0;
+    this.pendingPan.set(0, 0, 0);
+    this.inspectMoving = false;
+  }
+
+  /**
+   * Compute the pose that fits framed bounds into the current view
+   */
+  private computeFraming(framing: FramingState): {
+    position: THREE.Vector3;
+    target: THREE.Vector3;
+  } {
+    const { bounds, direction, options } = framing;
+    const padding = 1 + Math.max(0, options.padding ?? 0.1);
+    const tanVertical = Math.tan(THREE.MathUtils.degToRad(this.camera.fov) / 2) / padding;
+    const tanHorizontal = tanVertical * this.camera.aspect;
+
+    const center = bounds.getCenter(new THREE.Vector3());
+    let distance: number;
+
+    if (options.fit === 'sphere') {
+      const radius = bounds.getBoundingSphere(new THREE.Sphere()).radius;
+      distance = radius / Math.sin(Math.atan(Math.min(tanVertical, tanHorizontal)));
+    } else {
+      // View basis for the final pose; each corner must lie inside both frustum half-angles
+      const forward = direction.clone().negate();
+      const up =
+        Math.abs(forward.dot(this.camera.up)) > 0.999 ? new THREE.Vector3(0, 0, 1) : this.camera.up;
+      const right = new THREE.Vector3().crossVectors(forward, up).normalize();
+      const viewUp = new THREE.Vector3().crossVectors(right, forward);
+
+      distance = 0;
+      const corner = new THREE.Vector3();
+      for (let i = 0; i < 8; i++) {
+        corner
+          .set(
+            i & 1 ? bounds.max.x : bounds.min.x,
+            i & 2 ? bounds.max.y : bounds.min.y,
+            i & 4 ? bounds.max.z : bounds.min.z
+          )
+          .sub(center);
+        const depth = corner.dot(direction);
+        distance = Math.max(
+          distance,
+          depth + Math.abs(corner.dot(right)) / tanHorizontal,
+          depth + Math.abs(corner.dot(viewUp)) / tanVertical,
+          depth + this.camera.near
+        );
+      }
+    }
+
+    return {
+      position: center.clone().addScaledVector(direction, distance),
+      target: center,
+    };
+  }
+
+  /**
+   * Snap to the framing pose for the current aspect ratio
+   */
+  private refit(framing: FramingState): void {
+    const pose = this.computeFraming(framing);
+    this.camera.position.copy(pose.position);
+    this.parallaxOffset.set(0, 0, 0);
+    this.target.copy(pose.target);
+    this.lookAtTarget();
+    framing.aspect = this.camera.aspect;
+  }
+
+  /**
+   * Clamp a point into the constraint bounds (in place)
+   */
+  private clampToBounds(point: THREE.Vector3): THREE.Vector3 {
+    const bounds = this.constraints?.bounds;
+    if (bounds) bounds.clampPoint(point, point);
+    return point;
+  }
+
+  /**
+   * Limit a move to the bounds and stop it short of colliders (in place)
+   * Returns true if `to` was changed.
+   */
+  private constrainMove(from: THREE.Vector3, to: THREE.Vector3): boolean {
+    const original = to.clone();
+    this.clampToBounds(to);
+
+    const move = to.clone().sub(from);
+    const length = move.length();
+    const minDistance = this.constraints?.minDistance ?? 0.3;
+    if (length > 1e-6) {
+      const direction = move.divideScalar(length);
+      const hit = this.castCollider(from, direction, length + minDistance);
+      if (hit) to.copy(from).addScaledVector(direction, Math.max(0, hit.distance - minDistance));
+    }
+
+    return !to.equals(original);
+  }
+
+  /**
+   * Check that a straight move keeps clear of colliders
+   */
+  private isPathClear(from: THREE.Vector3, to: THREE.Vector3): boolean {
+    const length = from.distanceTo(to);
+    if (length < 1e-6) return true;
+
+    const direction = to.clone().sub(from).divideScalar(length);
+    return !this.castCollider(from, direction, length + (this.constraints?.minDistance ?? 0.3));
+  }
+
+  /**
+   * Find a curve from `from` to `to` around colliders (null: the straight line is clear)
+   * Tries waypoints above, beside and below the midpoint, nearest first.
+   */
+  private planDetour(from: THREE.Vector3, to: THREE.Vector3): THREE.Curve<THREE.Vector3> | null {
+    if (!this.constraints?.colliders || this.isPathClear(from, to)) return null;
+
+    const length = from.distanceTo(to);
+    const midpoint = from.clone().lerp(to, 0.5);
+    const up = this.camera.up.clone().normalize();
+    const side = new THREE.Vector3().subVectors(to, from).cross(up);
+    if (side.lengthSq() < 1e-12) side.set(1, 0, 0);
+    side.normalize();
+    const directions = [up, side, side.clone().negate(), up.clone().negate()];
+
+    for (const scale of DETOUR_SCALES) {
+      for (const direction of directions) {
+        const waypoint = this.clampToBounds(
+          midpoint.clone().addScaledVector(direction, length * scale)
+        );
+        if (this.isPathClear(from, waypoint) && this.isPathClear(waypoint, to)) {
+          return new THREE.CatmullRomCurve3(
+            [from.clone(), waypoint, to.clone()],
+            false,
+            'centripetal'
+          );
+        }
+      }
+    }
+
+    console.warn('No camera path around colliders found; moving in a straight line.');
+    return null;
+  }
+
+  /**
+   * Nearest collider hit along a ray, within `far`
+   */
+  private castCollider(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    far: number
+  ): THREE.Intersection | null {
+    const root = this.constraints?.colliders;
+    if (!root) return null;
+
+    this.raycaster.set(origin, direction);
+    this.raycaster.far = far;
+    this.raycaster.layers.set(this.constraints?.collisionLayer ?? DEFAULT_COLLIDER_LAYER);
+    return this.raycaster.intersectObject(root, true)[0] ?? null;
+  }
+
+  /**
+   * Look at the target, then apply roll around the view axis
+   */
+  private lookAtTarget(): void {
+    this.camera.lookAt(this.target);
+    if (this.orientation.roll !== 0) this.camera.rotateZ(this.orientation.roll);
+  }
+
+  /**
+   * Apply the position, target, FOV and roll tweened by a shot sequence
+   */
+  private applyShotFrame(): void {
+    this.camera.updateProjectionMatrix();
+    this.lookAtTarget();
+  }
+
+  /**
+   * Place the target on the current view ray
+   */
+  private syncTargetToView(distance: number): void {
+    this.target
+      .copy(this.camera.position)
+      .addScaledVector(this.getViewDirection(), distance > 0 ? distance : DEFAULT_TARGET_DISTANCE);
   }
 
   /**
@@ -190,5 +1295,10 @@ export class CameraController {
    */
   dispose(): void {
     this.cancelTransition();
+    this.exitInspect();
+    this.exitFirstPerson();
+    this.exitRail();
+    this.railInput = null;
+    this.parallax.dispose();
   }
 }
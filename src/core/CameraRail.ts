@@ -0,0 +1,162 @@
+/**
+ * CameraRail.ts
+ * Spline paths for camera position and look-at target, with named stops
+ * Constitution Principle II: Smooth Performance & Motion Quality (continuous, scrubbable paths)
+ */
+
+import * as THREE from 'three';
+import type { SceneCameraPose } from './SceneManager';
+
+export interface CameraRailStop {
+  id: string; // usually a section / Scene id
+  progress: number; // 0-1 along the rail
+}
+
+// Stops closer than this are treated as the same position
+const STOP_EPSILON = 1e-4;
+
+export class CameraRail {
+  private positionCurve: THREE.Curve<THREE.Vector3>;
+  private targetCurve: THREE.Curve<THREE.Vector3>;
+  private stops: CameraRailStop[];
+
+  constructor(
+    positionCurve: THREE.Curve<THREE.Vector3>,
+    targetCurve: THREE.Curve<THREE.Vector3>,
+    stops: CameraRailStop[] = []
+  ) {
+    this.positionCurve = positionCurve;
+    this.targetCurve = targetCurve;
+    this.stops = stops
+      .map((stop) => ({ ...stop, progress: THREE.MathUtils.clamp(stop.progress, 0, 1) }))
+      .sort((a, b) => a.progress - b.progress);
+  }
+
+  /**
+   * Rail passing through each pose in order (centripetal Catmull-Rom),
+   * with one stop per pose at evenly spaced progress values
+   */
+  static fromPoses(poses: Array<{ id: string; pose: SceneCameraPose }>): CameraRail {
+    if (poses.length < 2) {
+      throw new Error('A camera rail needs at least two poses');
+    }
+
+    const last = poses.length - 1;
+    return new CameraRail(
+      new THREE.CatmullRomCurve3(
+        poses.map(({ pose }) => pose.position.clone()),
+        false,
+        'centripetal'
+      ),
+      new THREE.CatmullRomCurve3(
+        poses.map(({ pose }) => pose.target.clone()),
+        false,
+        'centripetal'
+      ),
+      poses.map(({ id }, index) => ({ id, progress: index / last }))
+    );
+  }
+
+  /**
+   * Rail made of cubic Bezier segments
+   * Each path lists start, control, control, end points; consecutive segments share
+   * their end/start point, so a path of n segments has 3n + 1 points.
+   */
+  static fromBezier(
+    positionPoints: THREE.Vector3[],
+    targetPoints: THREE.Vector3[],
+    stops: CameraRailStop[] = []
+  ): CameraRail {
+    return new CameraRail(
+      CameraRail.bezierPath(positionPoints),
+      CameraRail.bezierPath(targetPoints),
+      stops
+    );
+  }
+
+  /**
+   * Get the camera pose at a progress value (0-1, clamped)
+   */
+  getPose(progress: number): SceneCameraPose {
+    const t = THREE.MathUtils.clamp(progress, 0, 1);
+    return {
+      position: this.positionCurve.getPoint(t),
+      target: this.targetCurve.getPoint(t),
+    };
+  }
+
+  /**
+   * Get all stops, ordered by progress
+   */
+  getStops(): CameraRailStop[] {
+    return this.stops.map((stop) => ({ ...stop }));
+  }
+
+  /**
+   * Get a stop by id
+   */
+  getStop(id: string): CameraRailStop | undefined {
+    const stop = this.stops.find((candidate) => candidate.id === id);
+    return stop ? { ...stop } : undefined;
+  }
+
+  /**
+   * Get the stop closest to a progress value
+   */
+  getNearestStop(progress: number): CameraRailStop | undefined {
+    let nearest: CameraRailStop | undefined;
+    this.stops.forEach((stop) => {
+      if (!nearest || Math.abs(stop.progress - progress) < Math.abs(nearest.progress - progress)) {
+        nearest = stop;
+      }
+    });
+    return nearest ? { ...nearest } : undefined;
+  }
+
+  /**
+   * Get the next stop after (direction > 0) or before (direction < 0) a progress value
+   */
+  getAdjacentStop(progress: number, direction: number): CameraRailStop | undefined {
+    const stop =
+      direction > 0
+        ? this.stops.find((candidate) => candidate.progress > progress + STOP_EPSILON)
+        : [...this.stops]
+            .reverse()
+            .find((candidate) => candidate.progress < progress - STOP_EPSILON);
+    return stop ? { ...stop } : undefined;
+  }
+
+  /**
+   * Get the progress of the rail point closest to a position (sampled)
+   */
+  getClosestProgress(position: THREE.Vector3, samples: number = 200): number {
+    let closest = 0;
+    let closestDistance = Infinity;
+    for (let i = 0; i <= samples; i++) {
+      const t = i / samples;
+      const distance = this.positionCurve.getPoint(t).distanceToSquared(position);
+      if (distance < closestDistance) {
+        closestDistance = distance;
+        closest = t;
+      }
+    }
+    return closest;
+  }
+
+  /**
+   * Chain cubic Bezier segments into one path
+   */
+  private static bezierPath(points: THREE.Vector3[]): THREE.CurvePath<THREE.Vector3> {
+    if (points.length < 4 || (points.length - 1) % 3 !== 0) {
+      throw new Error(`A Bezier rail needs 3n + 1 points, got ${points.length}`);
+    }
+
+    const path = new THREE.CurvePath<THREE.Vector3>();
+    for (let i = 0; i + 3 < points.length; i += 3) {
+      const [start, control1, control2, end] = points.slice(i, i + 4).map((point) => point.clone());
+      if (!start || !control1 || !control2 || !end) break;
+      path.add(new THREE.CubicBezierCurve3(start, control1, control2, end));
+    }
+    return path;
+  }
+}
@@ -0,0 +1,430 @@
+/**
+ * ContentLoader.ts
+ * Fetches and validates portfolio content against the API contract
+ * Constitution Principle III: Stability (malformed content fails loudly with precise paths)
+ */
+
+import * as THREE from 'three';
+import type {
+  Metadata,
+  PortfolioData,
+  Project,
+  Section,
+  SectionType,
+  Vector3Like,
+} from '../types/Content';
+import type { SceneCameraPose } from './SceneManager';
+
+export const DEFAULT_CONTENT_URL = '/content/portfolio-data.json';
+
+const SECTION_TYPES: readonly SectionType[] = ['landing', 'content', 'projects', 'contact'];
+const SECTION_ID_PATTERN = /^[a-z-]+$/;
+const PROJECT_ID_PATTERN = /^[a-z0-9-]+$/;
+const SEMVER_PATTERN = /^\d+\.\d+\.\d+$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+export interface ContentIssue {
+  path: string; // JSON path, e.g. '$.sections[2].projects[0].createdDate'
+  message: string;
+}
+
+/**
+ * Raised when content cannot be fetched, parsed or does not match the contract
+ */
+export class ContentValidationError extends Error {
+  readonly url: string;
+  readonly issues: ContentIssue[];
+
+  constructor(url: string, issues: ContentIssue[]) {
+    const summary = issues.map((issue) => `  ${issue.path}: ${issue.message}`).join('\n');
+    super(`Invalid portfolio content at ${url} (${issues.length} issue(s)):\n${summary}`);
+    this.name = 'ContentValidationError';
+    this.url = url;
+    this.issues = issues;
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Collects issues while walking the raw JSON
+ */
+class ContentValidator {
+  readonly issues: ContentIssue[] = [];
+  private sectionIds: Set<string> = new Set();
+  private projectIds: Set<string> = new Set();
+
+  validate(data: unknown): PortfolioData | null {
+    const root = this.object(data, '$');
+    if (!root) return null;
+
+    const metadata = this.metadata(root.metadata, '$.metadata');
+
+    const sections: Section[] = [];
+    const rawSections = root.sections;
+    if (!Array.isArray(rawSections)) {
+      this.fail('$.sections', 'expected an array of sections');
+    } else {
+      if (rawSections.length === 0) {
+        this.fail('$.sections', 'expected at least one section');
+      }
+      rawSections.forEach((raw, index) => {
+        const section = this.section(raw, `$.sections[${index}]`);
+        if (section) sections.push(section);
+      });
+    }
+
+    const landingCount = sections.filter((section) => section.id === 'landing').length;
+    if (Array.isArray(rawSections) && landingCount !== 1) {
+      this.fail(
+        '$.sections',
+        `expected exactly one section with id "landing", found ${landingCount}`
+      );
+    }
+
+    if (this.issues.length > 0 || !metadata) return null;
+    return { sections, metadata };
+  }
+
+  private section(value: unknown, path: string): Section | null {
+    const raw = this.object(value, path);
+    if (!raw) return null;
+
+    const id = this.string(raw.id, `${path}.id`);
+    if (id !== null) {
+      if (!SECTION_ID_PATTERN.test(id)) {
+        this.fail(`${path}.id`, `"${id}" must be lowercase letters and hyphens`);
+      } else if (this.sectionIds.has(id)) {
+        this.fail(`${path}.id`, `duplicate section id "${id}"`);
+      }
+      this.sectionIds.add(id);
+    }
+
+    let type: SectionType | null = null;
+    if (typeof raw.type === 'string' && SECTION_TYPES.includes(raw.type as SectionType)) {
+      type = raw.type as SectionType;
+    } else {
+      this.fail(
+        `${path}.type`,
+        `expected one of ${SECTION_TYPES.map((t) => `"${t}"`).join(', ')}, got ${this.describe(raw.type)}`
+      );
+    }
+
+    const title = this.string(raw.title, `${path}.title`);
+    const subtitle = this.optionalString(raw.subtitle, `${path}.subtitle`);
+    const cameraPosition = this.vector3(raw.cameraPosition, `${path}.cameraPosition`);
+    const cameraTarget = this.vector3(raw.cameraTarget, `${path}.cameraTarget`);
+    const content = this.optionalString(raw.content, `${path}.content`);
+    const backgroundModelUrl = this.optionalString(
+      raw.backgroundModelUrl,
+      `${path}.backgroundModelUrl`
+    );
+
+    if (cameraPosition && cameraTarget) {
+      const distance = Math.hypot(
+        cameraPosition.x - cameraTarget.x,
+        cameraPosition.y - cameraTarget.y,
+        cameraPosition.z - cameraTarget.z
+      );
+      if (distance <= 0.1) {
+        this.fail(`${path}.cameraTarget`, 'must be more than 0.1 units from cameraPosition');
+      }
+    }
+
+    let projects: Project[] | undefined;
+    if (raw.projects === undefined || raw.projects === null) {
+      if (type === 'projects') {
+        this.fail(`${path}.projects`, 'required for sections of type "projects"');
+      }
+    } else if (!Array.isArray(raw.projects)) {
+      this.fail(`${path}.projects`, `expected an array, got ${this.describe(raw.projects)}`);
+    } else {
+      projects = raw.projects.flatMap(
+        (rawProject, index) => this.project(rawProject, `${path}.projects[${index}]`) ?? []
+      );
+    }
+
+    if (id === null || type === null || title === null || !cameraPosition || !cameraTarget) {
+      return null;
+    }
+
+    const section: Section = { id, type, title, cameraPosition, cameraTarget };
+    if (subtitle !== undefined) section.subtitle = subtitle;
+    if (content !== undefined) section.content = content;
+    if (projects !== undefined) section.projects = projects;
+    if (backgroundModelUrl !== undefined) section.backgroundModelUrl = backgroundModelUrl;
+    return section;
+  }
+
+  private project(value: unknown, path: string): Project | null {
+    const raw = this.object(value, path);
+    if (!raw) return null;
+
+    const id = this.string(raw.id, `${path}.id`);
+    if (id !== null) {
+      if (!PROJECT_ID_PATTERN.test(id)) {
+        this.fail(`${path}.id`, `"${id}" must be lowercase letters, digits and hyphens`);
+      } else if (this.projectIds.has(id)) {
+        this.fail(`${path}.id`, `duplicate project id "${id}"`);
+      }
+      this.projectIds.add(id);
+    }
+
+    const title = this.string(raw.title, `${path}.title`);
+    const description = this.string(raw.description, `${path}.description`);
+    const thumbnailUrl = this.string(raw.thumbnailUrl, `${path}.thumbnailUrl`);
+    const modelUrl = this.optionalString(raw.modelUrl, `${path}.modelUrl`);
+    const externalUrl = this.optionalString(raw.externalUrl, `${path}.externalUrl`);
+    const createdDate = this.isoDate(raw.createdDate, `${path}.createdDate`);
+
+    let tags: string[] | null = null;
+    if (!Array.isArray(raw.tags)) {
+      this.fail(`${path}.tags`, `expected an array of strings, got ${this.describe(raw.tags)}`);
+    } else {
+      tags = raw.tags.flatMap((tag, index) => this.string(tag, `${path}.tags[${index}]`) ?? []);
+    }
+
+    let featured: boolean | null = null;
+    if (typeof raw.featured === 'boolean') {
+      featured = raw.featured;
+    } else {
+      this.fail(`${path}.featured`, `expected a boolean, got ${this.describe(raw.featured)}`);
+    }
+
+    if (
+      id === null ||
+      title === null ||
+      description === null ||
+      thumbnailUrl === null ||
+      createdDate === null ||
+      tags === null ||
+      featured === null
+    ) {
+      return null;
+    }
+
+    const project: Project = { id, title, description, tags, thumbnailUrl, featured, createdDate };
+    if (modelUrl !== undefined) project.modelUrl = modelUrl;
+    if (externalUrl !== undefined) project.externalUrl = externalUrl;
+    return project;
+  }
+
+  private metadata(value: unknown, path: string): Metadata | null {
+    const raw = this.object(value, path);
+    if (!raw) return null;
+
+    const lastUpdated = this.isoDate(raw.lastUpdated, `${path}.lastUpdated`);
+    const version = this.string(raw.version, `${path}.version`);
+    const author = this.string(raw.author, `${path}.author`);
+
+    if (version !== null && !SEMVER_PATTERN.test(version)) {
+      this.fail(`${path}.version`, `"${version}" is not a semantic version (x.y.z)`);
+    }
+
+    if (lastUpdated === null || version === null || author === null) return null;
+    return { lastUpdated, version, author };
+  }
+
+  private vector3(value: unknown, path: string): Vector3Like | null {
+    const raw = this.object(value, path);
+    if (!raw) return null;
+
+    let valid = true;
+    (['x', 'y', 'z'] as const).forEach((axis) => {
+      const component = raw[axis];
+      if (typeof component !== 'number' || !Number.isFinite(component)) {
+        this.fail(`${path}.${axis}`, `expected a finite number, got ${this.describe(component)}`);
+        valid = false;
+      }
+    });
+
+    return valid ? { x: raw.x as number, y: raw.y as number, z: raw.z as number } : null;
+  }
+
+  private isoDate(value: unknown, path: string): string | null {
+    const raw = this.string(value, path);
+    if (raw === null) return null;
+
+    if (!ISO_DATE_PATTERN.test(raw) || Number.isNaN(Date.parse(raw))) {
+      this.fail(path, `"${raw}" is not a valid ISO 8601 date`);
+      return null;
+    }
+    return raw;
+  }
+
+  private object(value: unknown, path: string): JsonObject | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.fail(path, `expected an object, got ${this.describe(value)}`);
+      return null;
+    }
+    return value as JsonObject;
+  }
+
+  private string(value: unknown, path: string): string | null {
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      this.fail(path, `expected a non-empty string, got ${this.describe(value)}`);
+      return null;
+    }
+    return value;
+  }
+
+  /**
+   * Optional fields accept null or absence (normalized to undefined)
+   */
+  private optionalString(value: unknown, path: string): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    return this.string(value, path) ?? undefined;
+  }
+
+  private fail(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  private describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'string') return `"${value}"`;
+    return typeof value;
+  }
+}
+
+export class ContentLoader {
+  private static instance: ContentLoader | null = null;
+
+  private data: PortfolioData | null = null;
+  private loadPromise: Promise<PortfolioData> | null = null;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): ContentLoader {
+    if (!ContentLoader.instance) {
+      ContentLoader.instance = new ContentLoader();
+    }
+    return ContentLoader.instance;
+  }
+
+  /**
+   * Validate raw JSON against the content contract
+   * @throws ContentValidationError listing every issue with its JSON path
+   */
+  static validate(data: unknown, url: string = DEFAULT_CONTENT_URL): PortfolioData {
+    const validator = new ContentValidator();
+    const result = validator.validate(data);
+
+    if (!result || validator.issues.length > 0) {
+      throw new ContentValidationError(url, validator.issues);
+    }
+    return result;
+  }
+
+  /**
+   * Fetch and validate portfolio content (fetched once, then cached in memory)
+   */
+  load(url: string = DEFAULT_CONTENT_URL): Promise<PortfolioData> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.fetchContent(url).then((data) => {
+        this.data = data;
+        return data;
+      });
+
+      // Allow a retry if loading failed
+      this.loadPromise.catch(() => {
+        this.loadPromise = null;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Get loaded content (null until load() resolves)
+   */
+  getData(): PortfolioData | null {
+    return this.data;
+  }
+
+  /**
+   * Get a section by id
+   */
+  getSection(id: string): Section | undefined {
+    return this.data?.sections.find((section) => section.id === id);
+  }
+
+  /**
+   * Find a project and the section that contains it
+   */
+  getProject(id: string): { section: Section; project: Project } | undefined {
+    for (const section of this.data?.sections ?? []) {
+      const project = section.projects?.find((candidate) => candidate.id === id);
+      if (project) return { section, project };
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the authored camera pose of a section as Three.js vectors
+   */
+  getCameraPose(sectionId: string): SceneCameraPose | null {
+    const section = this.getSection(sectionId);
+    if (!section) return null;
+
+    return {
+      position: new THREE.Vector3(
+        section.cameraPosition.x,
+        section.cameraPosition.y,
+        section.cameraPosition.z
+      ),
+      target: new THREE.Vector3(
+        section.cameraTarget.x,
+        section.cameraTarget.y,
+        section.cameraTarget.z
+      ),
+    };
+  }
+
+  /**
+   * Project ids grouped by section id (used for routing)
+   */
+  getProjectIdsBySection(): Record<string, string[]> {
+    const result: Record<string, string[]> = {};
+    this.data?.sections.forEach((section) => {
+      if (section.projects) {
+        result[section.id] = section.projects.map((project) => project.id);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Fetch, parse and validate
+   */
+  private async fetchContent(url: string): Promise<PortfolioData> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new ContentValidationError(url, [
+        { path: '$', message: `request failed with HTTP ${response.status}` },
+      ]);
+    }
+
+    const text = await response.text();
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      throw new ContentValidationError(url, [
+        { path: '$', message: `malformed JSON: ${(error as Error).message}` },
+      ]);
+    }
+
+    return ContentLoader.validate(json, url);
+  }
+
+  /**
+   * Clean up and reset singleton
+   */
+  static dispose(): void {
+    ContentLoader.instance = null;
+  }
+}
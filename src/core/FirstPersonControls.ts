@@ -0,0 +1,204 @@
+/**
+ * FirstPersonControls.ts
+ * Pointer-lock mouse look and WASD walking for CameraController's first-person mode
+ * Constitution Principle V: Accessibility & Input Gracefulness (Escape always gets you out)
+ */
+
+import { CameraController, type FirstPersonOptions } from './CameraController';
+import type { InputHandler } from './InputHandler';
+
+export interface FirstPersonControlsOptions {
+  lookSensitivity?: number; // radians per pixel of mouse movement (default: 0.002)
+  invertX?: boolean; // moving the mouse right turns left (default: false)
+  invertY?: boolean; // moving the mouse up looks down (default: false)
+  moveSpeed?: number; // world units per second (default: 3)
+  sprintMultiplier?: number; // speed factor while Shift is held (default: 2)
+  camera?: FirstPersonOptions; // pitch limits and look distance (see enterFirstPerson)
+}
+
+/**
+ * enter() locks the pointer; once the browser grants the lock the camera switches to
+ * first-person mode. Mouse movement turns the view, WASD (or arrows) walks and Shift
+ * sprints. Escape, exit(), losing the lock (e.g. switching tabs) or navigating to another
+ * section hand the camera back.
+ * Input is read from InputHandler, so call update() once per frame after its update().
+ */
+export class FirstPersonControls {
+  private cameraController: CameraController;
+  private input: InputHandler;
+  private element: HTMLElement;
+  private options: Required<Omit<FirstPersonControlsOptions, 'camera'>>;
+  private cameraOptions: FirstPersonOptions;
+
+  private active: boolean = false;
+  private requested: boolean = false; // waiting for the browser to grant pointer lock
+  private escapeCount: number = 0;
+  private onChangeCallback: ((active: boolean) => void) | null = null;
+
+  constructor(
+    cameraController: CameraController,
+    input: InputHandler,
+    element: HTMLElement,
+    options: FirstPersonControlsOptions = {}
+  ) {
+    this.cameraController = cameraController;
+    this.input = input;
+    this.element = element;
+    this.options = {
+      lookSensitivity: options.lookSensitivity ?? 0.002,
+      invertX: options.invertX ?? false,
+      invertY: options.invertY ?? false,
+      moveSpeed: options.moveSpeed ?? 3,
+      sprintMultiplier: options.sprintMultiplier ?? 2,
+    };
+    this.cameraOptions = options.camera ?? {};
+
+    document.addEventListener('pointerlockchange', this.handleLockChange);
+    document.addEventListener('pointerlockerror', this.handleLockError);
+  }
+
+  /**
+   * Ask for pointer lock; first-person mode starts once it is granted
+   * Browsers only grant the lock from a user gesture, so call this from a click or key handler.
+   */
+  enter(): void {
+    if (this.active || this.requested) return;
+    this.requested = true;
+
+    // Older browsers return nothing instead of a promise and report through pointerlockerror
+    Promise.resolve(this.element.requestPointerLock()).catch((error: unknown) => {
+      if (!this.requested) return; // already reported by pointerlockerror
+      this.requested = false;
+      console.warn('Pointer lock was refused:', error);
+    });
+  }
+
+  /**
+   * Leave first-person mode and release the pointer
+   */
+  exit(): void {
+    this.requested = false;
+    if (this.active) this.stop();
+    if (document.pointerLockElement === this.element) document.exitPointerLock();
+  }
+
+  /**
+   * Check if first-person mode is active
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Change sensitivity, inversion and speed; camera options apply from the next enter()
+   */
+  setOptions(options: FirstPersonControlsOptions): void {
+    const { camera, ...controls } = options;
+    this.options = { ...this.options, ...controls };
+    if (camera) this.cameraOptions = { ...this.cameraOptions, ...camera };
+  }
+
+  /**
+   * Set callback for first-person mode starting (true) and ending (false)
+   */
+  setOnChange(callback: (active: boolean) => void): void {
+    this.onChangeCallback = callback;
+  }
+
+  /**
+   * Apply one frame of look and walk input
+   * Walking is scaled by `delta`, so the speed does not depend on the frame rate.
+   */
+  update(delta: number): void {
+    if (!this.active) return;
+
+    // Something else ended the mode, e.g. SceneManager swapping scenes
+    if (!this.cameraController.isFirstPerson()) {
+      this.exit();
+      return;
+    }
+
+    // Browsers usually swallow the Escape that releases the lock; this catches the rest
+    const escapeCount = this.input.getKeyPressCount('escape');
+    if (escapeCount !== this.escapeCount) {
+      this.exit();
+      return;
+    }
+
+    const { lookSensitivity, invertX, invertY, moveSpeed, sprintMultiplier } = this.options;
+    const movement = this.input.getPointerMovement();
+    this.cameraController.look(
+      -movement.x * lookSensitivity * (invertX ? -1 : 1),
+      -movement.y * lookSensitivity * (invertY ? -1 : 1)
+    );
+
+    const forward = this.axis(['w', 'arrowup'], ['s', 'arrowdown']);
+    const right = this.axis(['d', 'arrowright'], ['a', 'arrowleft']);
+    if (forward === 0 && right === 0) return;
+
+    // Diagonals are no faster than straight lines
+    const sprint = this.input.isKeyPressed('shift') ? sprintMultiplier : 1;
+    const step = (moveSpeed * sprint * delta) / Math.hypot(forward, right);
+    this.cameraController.move(forward * step, right * step);
+  }
+
+  /**
+   * Cleanup
+   */
+  dispose(): void {
+    this.exit();
+    document.removeEventListener('pointerlockchange', this.handleLockChange);
+    document.removeEventListener('pointerlockerror', this.handleLockError);
+  }
+
+  /**
+   * Start first-person mode once the lock is granted, stop it when the lock is lost
+   */
+  private handleLockChange = (): void => {
+    const locked = document.pointerLockElement === this.element;
+    if (locked && this.requested && !this.active) {
+      this.start();
+    } else if (!locked && this.active) {
+      this.stop();
+    }
+    this.requested = false;
+  };
+
+  /**
+   * Give up on a refused lock request
+   */
+  private handleLockError = (): void => {
+    if (!this.requested) return;
+    this.requested = false;
+    console.warn('Pointer lock was refused.');
+  };
+
+  /**
+   * Hand the camera to first-person mode
+   */
+  private start(): void {
+    this.active = true;
+    // Movement and Escape presses from before the lock are not look input
+    this.input.getPointerMovement();
+    this.escapeCount = this.input.getKeyPressCount('escape');
+    this.cameraController.enterFirstPerson(this.cameraOptions);
+    this.onChangeCallback?.(true);
+  }
+
+  /**
+   * Give the camera back where it is
+   */
+  private stop(): void {
+    this.active = false;
+    this.cameraController.exitFirstPerson();
+    this.onChangeCallback?.(false);
+  }
+
+  /**
+   * -1, 0 or 1 from two sets of held keys
+   */
+  private axis(positive: string[], negative: string[]): number {
+    const held = (keys: string[]): boolean => keys.some((key) => this.input.isKeyPressed(key));
+    return (held(positive) ? 1 : 0) - (held(negative) ? 1 : 0);
+  }
+}
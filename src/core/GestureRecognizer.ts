@@ -0,0 +1,451 @@
+/**
+ * GestureRecognizer.ts
+ * Multi-touch gestures (tap, double-tap, long-press, swipe, pinch, pan, rotate) from pointer events
+ * Constitution Principle V: Accessibility & Input Gracefulness (touch is a first-class input)
+ */
+
+import type {
+  GestureEvent,
+  GestureFrameState,
+  GesturePhase,
+  GestureThresholds,
+  SwipeDirection,
+} from '../types/Gesture';
+
+/**
+ * The parts of a PointerEvent the recognizer reads, so replays can feed plain objects
+ * timeStamp is in ms on the same clock as the `now` passed to update().
+ */
+export interface GesturePointer {
+  pointerId: number;
+  pointerType: string;
+  clientX: number;
+  clientY: number;
+  timeStamp: number;
+}
+
+interface TrackedPointer {
+  startX: number;
+  startY: number;
+  startTime: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Baseline and progress of the two-finger gestures
+ * Until a gesture starts its "last" value stays at the baseline, so the start event
+ * carries the whole change including the part below the threshold.
+ */
+interface TwoFingerState {
+  startDistance: number;
+  lastDistance: number;
+  startAngle: number;
+  lastAngle: number;
+  rotation: number;
+  startCenter: { x: number; y: number };
+  lastCenter: { x: number; y: number };
+  pinching: boolean;
+  rotating: boolean;
+  panning: boolean;
+}
+
+export class GestureRecognizer {
+  private thresholds: Required<GestureThresholds>;
+  private pointerTypes: string[];
+
+  // In pointerdown order; two-finger gestures follow the first two
+  private pointers: Map<number, TrackedPointer> = new Map();
+  private twoFinger: TwoFingerState | null = null;
+
+  // A touch sequence that ever had two fingers down never becomes a tap or swipe
+  private multiTouch: boolean = false;
+  // Armed while a single contact stays still; checked in update() so replays time it too
+  private longPressArmed: boolean = false;
+  private longPressed: boolean = false;
+  private lastTap: { x: number; y: number; time: number } | null = null;
+
+  private frame: GestureFrameState = GestureRecognizer.emptyFrame();
+  private published: GestureFrameState = GestureRecognizer.emptyFrame();
+  private onGestureCallback: ((event: GestureEvent) => void) | null = null;
+
+  constructor(thresholds: GestureThresholds = {}, pointerTypes: string[] = ['touch', 'pen']) {
+    this.thresholds = {
+      tapMaxDistance: thresholds.tapMaxDistance ?? 10,
+      tapMaxDuration: thresholds.tapMaxDuration ?? 300,
+      doubleTapInterval: thresholds.doubleTapInterval ?? 300,
+      doubleTapMaxDistance: thresholds.doubleTapMaxDistance ?? 30,
+      longPressDuration: thresholds.longPressDuration ?? 500,
+      swipeMinDistance: thresholds.swipeMinDistance ?? 50,
+      swipeMinVelocity: thresholds.swipeMinVelocity ?? 300,
+      pinchMinScale: thresholds.pinchMinScale ?? 0.05,
+      panMinDistance: thresholds.panMinDistance ?? 10,
+      rotateMinAngle: thresholds.rotateMinAngle ?? 0.1,
+    };
+    this.pointerTypes = pointerTypes;
+  }
+
+  /**
+   * Change recognition thresholds
+   */
+  setThresholds(thresholds: GestureThresholds): void {
+    this.thresholds = { ...this.thresholds, ...thresholds };
+  }
+
+  /**
+   * Get current recognition thresholds
+   */
+  getThresholds(): Readonly<Required<GestureThresholds>> {
+    return { ...this.thresholds };
+  }
+
+  /**
+   * Set callback fired as soon as a gesture is recognized
+   */
+  setOnGesture(callback: (event: GestureEvent) => void): void {
+    this.onGestureCallback = callback;
+  }
+
+  /**
+   * Track a new contact
+   */
+  pointerDown(event: GesturePointer): void {
+    if (!this.pointerTypes.includes(event.pointerType)) return;
+
+    this.pointers.set(event.pointerId, {
+      startX: event.clientX,
+      startY: event.clientY,
+      startTime: event.timeStamp,
+      x: event.clientX,
+      y: event.clientY,
+    });
+
+    if (this.pointers.size === 1) {
+      this.multiTouch = false;
+      this.longPressed = false;
+      this.longPressArmed = true;
+    } else {
+      this.multiTouch = true;
+      this.cancelLongPress();
+      if (this.pointers.size === 2) this.beginTwoFinger();
+    }
+  }
+
+  /**
+   * Follow a tracked contact
+   */
+  pointerMove(event: GesturePointer): void {
+    const pointer = this.pointers.get(event.pointerId);
+    if (!pointer) return;
+
+    pointer.x = event.clientX;
+    pointer.y = event.clientY;
+
+    if (this.pointers.size === 1) {
+      const moved = Math.hypot(pointer.x - pointer.startX, pointer.y - pointer.startY);
+      if (moved > this.thresholds.tapMaxDistance) this.cancelLongPress();
+    } else {
+      this.updateTwoFinger();
+    }
+  }
+
+  /**
+   * Release a contact, recognizing a tap or swipe if it was the only one
+   */
+  pointerUp(event: GesturePointer): void {
+    const pointer = this.pointers.get(event.pointerId);
+    if (!pointer) return;
+
+    pointer.x = event.clientX;
+    pointer.y = event.clientY;
+
+    if (this.pointers.size === 1 && !this.multiTouch && !this.longPressed) {
+      this.recognizeRelease(pointer, event.timeStamp);
+    }
+    this.removePointer(event.pointerId);
+  }
+
+  /**
+   * Drop a contact the browser took over (scrolling, system gesture); nothing is recognized
+   */
+  pointerCancel(event: GesturePointer): void {
+    if (!this.pointers.has(event.pointerId)) return;
+    this.multiTouch = true;
+    this.removePointer(event.pointerId);
+  }
+
+  /**
+   * Fire a due long press, then publish this frame's gestures and start collecting the next
+   * (call once per frame)
+   */
+  update(now: number = performance.now()): void {
+    const [pointer] = this.pointers.values();
+    if (
+      pointer &&
+      this.longPressArmed &&
+      now - pointer.startTime >= this.thresholds.longPressDuration
+    ) {
+      this.longPressArmed = false;
+      this.longPressed = true;
+      this.emit({ type: 'longPress', x: pointer.x, y: pointer.y });
+    }
+
+    this.frame.pointers = this.pointers.size;
+    this.frame.pinching = this.twoFinger?.pinching ?? false;
+    this.frame.panning = this.twoFinger?.panning ?? false;
+    this.frame.rotating = this.twoFinger?.rotating ?? false;
+
+    this.published = this.frame;
+    this.frame = GestureRecognizer.emptyFrame();
+  }
+
+  /**
+   * Get the gestures published by the last update
+   */
+  getState(): Readonly<GestureFrameState> {
+    return { ...this.published, events: [...this.published.events] };
+  }
+
+  /**
+   * Get the number of tracked contacts
+   */
+  getPointerCount(): number {
+    return this.pointers.size;
+  }
+
+  /**
+   * Forget every contact and pending gesture
+   */
+  reset(): void {
+    this.cancelLongPress();
+    this.pointers.clear();
+    this.twoFinger = null;
+    this.lastTap = null;
+    this.frame = GestureRecognizer.emptyFrame();
+    this.published = GestureRecognizer.emptyFrame();
+  }
+
+  /**
+   * Classify a single finger lifting as a tap (and maybe double-tap) or a swipe
+   */
+  private recognizeRelease(pointer: TrackedPointer, now: number): void {
+    const dx = pointer.x - pointer.startX;
+    const dy = pointer.y - pointer.startY;
+    const distance = Math.hypot(dx, dy);
+    const duration = now - pointer.startTime;
+
+    if (distance <= this.thresholds.tapMaxDistance && duration <= this.thresholds.tapMaxDuration) {
+      this.emit({ type: 'tap', x: pointer.x, y: pointer.y });
+
+      // The first tap is reported immediately; the second adds a doubleTap
+      const last = this.lastTap;
+      if (
+        last &&
+        now - last.time <= this.thresholds.doubleTapInterval &&
+        Math.hypot(pointer.x - last.x, pointer.y - last.y) <= this.thresholds.doubleTapMaxDistance
+      ) {
+        this.emit({ type: 'doubleTap', x: pointer.x, y: pointer.y });
+        this.lastTap = null;
+      } else {
+        this.lastTap = { x: pointer.x, y: pointer.y, time: now };
+      }
+      return;
+    }
+
+    const velocity = distance / Math.max(duration / 1000, 1e-3);
+    if (
+      distance < this.thresholds.swipeMinDistance ||
+      velocity < this.thresholds.swipeMinVelocity
+    ) {
+      return;
+    }
+
+    let direction: SwipeDirection;
+    if (Math.abs(dx) > Math.abs(dy)) direction = dx > 0 ? 'right' : 'left';
+    else direction = dy > 0 ? 'down' : 'up';
+    this.emit({ type: 'swipe', direction, velocity, x: pointer.x, y: pointer.y });
+  }
+
+  /**
+   * Stop tracking a contact, ending or re-basing two-finger gestures
+   */
+  private removePointer(pointerId: number): void {
+    this.pointers.delete(pointerId);
+    this.cancelLongPress();
+
+    if (this.twoFinger) {
+      this.endTwoFinger();
+      // With three or more fingers down the next pair carries on from here
+      if (this.pointers.size >= 2) this.beginTwoFinger();
+    }
+    if (this.pointers.size === 0) this.multiTouch = false;
+  }
+
+  /**
+   * Record the baseline of the first two contacts
+   */
+  private beginTwoFinger(): void {
+    const pair = this.getPair();
+    if (!pair) return;
+
+    const distance = Math.max(pairDistance(pair), 1);
+    const angle = pairAngle(pair);
+    const center = pairCenter(pair);
+    this.twoFinger = {
+      startDistance: distance,
+      lastDistance: distance,
+      startAngle: angle,
+      lastAngle: angle,
+      rotation: 0,
+      startCenter: center,
+      lastCenter: { ...center },
+      pinching: false,
+      rotating: false,
+      panning: false,
+    };
+  }
+
+  /**
+   * Start or continue pinch, rotate and pan from the first two contacts
+   */
+  private updateTwoFinger(): void {
+    const state = this.twoFinger;
+    const pair = this.getPair();
+    if (!state || !pair) return;
+
+    const distance = Math.max(pairDistance(pair), 1);
+    const angle = pairAngle(pair);
+    const center = pairCenter(pair);
+
+    // Pinch
+    const scale = distance / state.startDistance;
+    if (state.pinching || Math.abs(scale - 1) >= this.thresholds.pinchMinScale) {
+      const phase: GesturePhase = state.pinching ? 'change' : 'start';
+      const delta = distance / state.lastDistance;
+      state.pinching = true;
+      state.lastDistance = distance;
+      this.frame.scaleDelta *= delta;
+      this.emit({ type: 'pinch', phase, scale, delta, x: center.x, y: center.y });
+    }
+
+    // Rotate
+    const turned = wrapAngle(angle - state.lastAngle);
+    if (state.rotating || Math.abs(turned) >= this.thresholds.rotateMinAngle) {
+      const phase: GesturePhase = state.rotating ? 'change' : 'start';
+      state.rotating = true;
+      state.lastAngle = angle;
+      state.rotation += turned;
+      this.frame.rotationDelta += turned;
+      this.emit({
+        type: 'rotate',
+        phase,
+        rotation: state.rotation,
+        delta: turned,
+        x: center.x,
+        y: center.y,
+      });
+    }
+
+    // Pan
+    const travelled = Math.hypot(center.x - state.startCenter.x, center.y - state.startCenter.y);
+    if (state.panning || travelled >= this.thresholds.panMinDistance) {
+      const phase: GesturePhase = state.panning ? 'change' : 'start';
+      const deltaX = center.x - state.lastCenter.x;
+      const deltaY = center.y - state.lastCenter.y;
+      state.panning = true;
+      state.lastCenter = center;
+      this.frame.panDeltaX += deltaX;
+      this.frame.panDeltaY += deltaY;
+      this.emit({ type: 'pan', phase, deltaX, deltaY, x: center.x, y: center.y });
+    }
+  }
+
+  /**
+   * Send end events for whichever two-finger gestures had started
+   */
+  private endTwoFinger(): void {
+    const state = this.twoFinger;
+    if (!state) return;
+    this.twoFinger = null;
+
+    const { x, y } = state.lastCenter;
+    if (state.pinching) {
+      const scale = state.lastDistance / state.startDistance;
+      this.emit({ type: 'pinch', phase: 'end', scale, delta: 1, x, y });
+    }
+    if (state.rotating) {
+      this.emit({ type: 'rotate', phase: 'end', rotation: state.rotation, delta: 0, x, y });
+    }
+    if (state.panning) {
+      this.emit({ type: 'pan', phase: 'end', deltaX: 0, deltaY: 0, x, y });
+    }
+  }
+
+  /**
+   * Stop a pending long press
+   */
+  private cancelLongPress(): void {
+    this.longPressArmed = false;
+  }
+
+  /**
+   * First two tracked contacts, or null with fewer
+   */
+  private getPair(): [TrackedPointer, TrackedPointer] | null {
+    const [a, b] = this.pointers.values();
+    return a && b ? [a, b] : null;
+  }
+
+  /**
+   * Queue an event for this frame and notify the callback
+   */
+  private emit(event: GestureEvent): void {
+    this.frame.events.push(event);
+    this.onGestureCallback?.(event);
+  }
+
+  /**
+   * Frame state with nothing recognized
+   */
+  private static emptyFrame(): GestureFrameState {
+    return {
+      pointers: 0,
+      pinching: false,
+      scaleDelta: 1,
+      panning: false,
+      panDeltaX: 0,
+      panDeltaY: 0,
+      rotating: false,
+      rotationDelta: 0,
+      events: [],
+    };
+  }
+}
+
+/**
+ * Distance between two contacts, in pixels
+ */
+function pairDistance([a, b]: [TrackedPointer, TrackedPointer]): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+/**
+ * Angle of the line between two contacts; y points down, so positive is clockwise
+ */
+function pairAngle([a, b]: [TrackedPointer, TrackedPointer]): number {
+  return Math.atan2(b.y - a.y, b.x - a.x);
+}
+
+/**
+ * Midpoint of two contacts
+ */
+function pairCenter([a, b]: [TrackedPointer, TrackedPointer]): { x: number; y: number } {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+/**
+ * Wrap an angle difference into -π..π
+ */
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
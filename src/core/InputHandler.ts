@@ -1,10 +1,36 @@
 /**
  * InputHandler.ts
- * Unified input handling for pointer, keyboard, scroll, and touch events
+ * Unified input handling for pointer, keyboard, scroll, touch, and gamepad input
  * Constitution Principle V: Accessibility & Input Gracefulness
  */
 
 import * as THREE from 'three';
+import { GestureRecognizer } from './GestureRecognizer';
+import { WheelNormalizer } from './WheelNormalizer';
+import type { GestureType } from '../types/InputActions';
+import type {
+  GestureEvent,
+  GestureFrameState,
+  GestureThresholds,
+  SwipeDirection,
+} from '../types/Gesture';
+import type { PointerInput, RecordedInput } from '../types/InputRecording';
+import type { ScrollIntent, WheelOptions } from '../types/Wheel';
+import {
+  GAMEPAD_BUTTONS,
+  type GamepadButtonName,
+  type GamepadInputState,
+  type GamepadOptions,
+  type StickState,
+} from '../types/Gamepad';
+
+// Bindable names of the four swipe directions
+const SWIPE_GESTURES: Record<SwipeDirection, GestureType> = {
+  left: 'swipeLeft',
+  right: 'swipeRight',
+  up: 'swipeUp',
+  down: 'swipeDown',
+};
 
 export interface PointerState {
   x: number; // Normalized device coordinates (-1 to 1)
@@ -12,6 +38,7 @@ export interface PointerState {
   deltaX: number;
   deltaY: number;
   isDown: boolean;
+  buttons: number; // bitmask of held buttons (PointerEvent.buttons)
 }
 
 export interface KeyboardState {
@@ -19,6 +46,12 @@ export interface KeyboardState {
   lastKey: string | null;
 }
 
+export interface InputHandlerOptions {
+  gestures?: GestureThresholds;
+  gamepad?: GamepadOptions;
+  wheel?: WheelOptions;
+}
+
 export class InputHandler {
   private canvas: HTMLCanvasElement;
   private pointer: PointerState = {
@@ -27,6 +60,7 @@ export class InputHandler {
     deltaX: 0,
     deltaY: 0,
     isDown: false,
+    buttons: 0,
   };
   
   private keyboard: KeyboardState = {
@@ -35,12 +69,48 @@ export class InputHandler {
   };
 
   private scrollDelta: number = 0;
+  private pointerMovement = { x: 0, y: 0 }; // CSS px, works under pointer lock
+  private wheel: WheelNormalizer;
+  private wheelCapture: (() => boolean) | null = null;
+  private onScrollIntentCallback: ((intent: ScrollIntent) => void) | null = null;
+
+  // Running totals for readers that must not consume input (see ActionMap)
+  private wheelTotal = { up: 0, down: 0 }; // intentional scrolling only, without inertia
+  private keyPressCounts: Map<string, number> = new Map();
+  private buttonPressCounts: Map<number, number> = new Map();
+  private gestureCounts: Map<GestureType, number> = new Map();
+  private gestures: GestureRecognizer;
+  private onGestureCallback: ((event: GestureEvent) => void) | null = null;
+
+  // Connected controllers by Gamepad.index, refreshed by update()
+  private gamepadOptions: Required<GamepadOptions>;
+  private gamepads: Map<number, GamepadInputState> = new Map();
+  private activeGamepad: number | null = null;
+  private onGamepadConnectionCallback:
+    ((gamepad: Readonly<GamepadInputState>, connected: boolean) => void) | null = null;
+  private gamepadSnapshot: string = '[]'; // last polled state, to detect changes
+
+  // Recording and replay (see InputRecorder / InputReplay)
+  private liveInput: boolean = true;
+  private clock: (() => number) | null = null;
+  private onInputCallback: ((input: RecordedInput) => void) | null = null;
+  private onPointerInputCallback:
+    ((input: PointerInput, nativeEvent: PointerEvent | null) => void) | null = null;
+  private nativePointerEvent: PointerEvent | null = null; // DOM event behind the live input
+
   private raycaster: THREE.Raycaster = new THREE.Raycaster();
   
-  private boundHandlers: Map<string, EventListener> = new Map();
+  private boundHandlers: Map<string, { handler: EventListener; target: EventTarget }> = new Map();
 
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(canvas: HTMLCanvasElement, options: InputHandlerOptions = {}) {
     this.canvas = canvas;
+    this.gestures = new GestureRecognizer(options.gestures);
+    this.gestures.setOnGesture(this.handleGesture);
+    this.wheel = new WheelNormalizer(options.wheel);
+    this.gamepadOptions = {
+      deadZone: options.gamepad?.deadZone ?? 0.15,
+      triggerDeadZone: options.gamepad?.triggerDeadZone ?? 0.05,
+    };
     this.setupEventListeners();
   }
 
@@ -48,23 +118,24 @@ export class InputHandler {
    * Setup all event listeners
    */
   private setupEventListeners(): void {
-    // Pointer events
-    this.addListener('pointermove', this.handlePointerMove);
-    this.addListener('pointerdown', this.handlePointerDown);
-    this.addListener('pointerup', this.handlePointerUp);
-    this.addListener('pointerleave', this.handlePointerLeave);
+    // Pointer events (mouse, pen and every touch contact; the canvas sets touch-action: none)
+    this.addListener('pointermove', this.handlePointer);
+    this.addListener('pointerdown', this.handlePointer);
+    this.addListener('pointerup', this.handlePointer);
+    this.addListener('pointercancel', this.handlePointer);
+    this.addListener('pointerleave', this.handlePointer);
     
     // Keyboard events
     this.addListener('keydown', this.handleKeyDown, window);
     this.addListener('keyup', this.handleKeyUp, window);
+    this.addListener('blur', this.handleWindowBlur, window);
     
     // Scroll events
     this.addListener('wheel', this.handleWheel, { passive: false });
-    
-    // Touch events for mobile (passive: false allows preventDefault)
-    this.addListener('touchstart', this.handleTouchStart, { passive: false });
-    this.addListener('touchmove', this.handleTouchMove, { passive: false });
-    this.addListener('touchend', this.handleTouchEnd);
+
+    // Gamepads are polled in update(); these only report changes without waiting a frame
+    this.addListener('gamepadconnected', this.handleGamepadConnection, window);
+    this.addListener('gamepaddisconnected', this.handleGamepadConnection, window);
   }
 
   /**
@@ -80,124 +151,241 @@ export class InputHandler {
     const eventOptions = target instanceof EventTarget ? options : (target as AddEventListenerOptions);
     
     const boundHandler = handler.bind(this);
-    this.boundHandlers.set(event, boundHandler);
+    this.boundHandlers.set(event, { handler: boundHandler, target: eventTarget });
     eventTarget.addEventListener(event, boundHandler, eventOptions);
   }
 
   /**
-   * Handle pointer move
+   * Handle pointer move / down / up / cancel / leave
    */
-  private handlePointerMove = (event: Event): void => {
+  private handlePointer = (event: Event): void => {
     const e = event as PointerEvent;
     const rect = this.canvas.getBoundingClientRect();
-    
-    const prevX = this.pointer.x;
-    const prevY = this.pointer.y;
-    
-    // Convert to normalized device coordinates (-1 to 1)
-    this.pointer.x = ((e.clientX - rect.left) / rect.width) * 2 - 1;
-    this.pointer.y = -((e.clientY - rect.top) / rect.height) * 2 + 1;
-    
-    // Calculate delta
-    this.pointer.deltaX = this.pointer.x - prevX;
-    this.pointer.deltaY = this.pointer.y - prevY;
+
+    this.nativePointerEvent = e;
+    this.receive({
+      type: e.type as PointerInput['type'],
+      pointerId: e.pointerId,
+      pointerType: e.pointerType,
+      isPrimary: e.isPrimary,
+      button: e.button,
+      buttons: e.buttons,
+      // Convert to normalized device coordinates (-1 to 1)
+      x: ((e.clientX - rect.left) / rect.width) * 2 - 1,
+      y: -((e.clientY - rect.top) / rect.height) * 2 + 1,
+      movementX: e.movementX,
+      movementY: e.movementY,
+      time: this.now(),
+    });
+    this.nativePointerEvent = null;
   };
 
   /**
-   * Handle pointer down
+   * Handle key down
+   * Typing into form fields and Ctrl/Cmd shortcuts belong to the page, not the scene.
    */
-  private handlePointerDown = (): void => {
-    this.pointer.isDown = true;
+  private handleKeyDown = (event: Event): void => {
+    const e = event as KeyboardEvent;
+    if (e.ctrlKey || e.metaKey || isEditableTarget(e.target)) return;
+    this.receive({ type: 'keydown', key: e.key, repeat: e.repeat, time: this.now() });
   };
 
   /**
-   * Handle pointer up
+   * Handle key up
+   * Releases are taken from anywhere, so a key held while focus moves into a field still lifts.
    */
-  private handlePointerUp = (): void => {
-    this.pointer.isDown = false;
+  private handleKeyUp = (event: Event): void => {
+    const e = event as KeyboardEvent;
+    if (!this.keyboard.keysPressed.has(e.key.toLowerCase())) return;
+    this.receive({ type: 'keyup', key: e.key, time: this.now() });
   };
 
   /**
-   * Handle pointer leave
+   * Release every held key when the window loses focus (its keyups go elsewhere)
+   * Sent as keyups, so recordings replay the release too.
    */
-  private handlePointerLeave = (): void => {
-    this.pointer.isDown = false;
+  private handleWindowBlur = (): void => {
+    const time = this.now();
+    [...this.keyboard.keysPressed].forEach((key) => this.receive({ type: 'keyup', key, time }));
   };
 
   /**
-   * Handle key down
+   * Handle mouse wheel and trackpad scrolling
+   * Only scrolling the canvas consumes is taken from the page (see setWheelCapture);
+   * Ctrl+wheel and trackpad pinches stay browser zoom.
    */
-  private handleKeyDown = (event: Event): void => {
-    const e = event as KeyboardEvent;
-    this.keyboard.keysPressed.add(e.key.toLowerCase());
-    this.keyboard.lastKey = e.key.toLowerCase();
+  private handleWheel = (event: Event): void => {
+    const e = event as WheelEvent;
+    if (e.ctrlKey || (this.wheelCapture && !this.wheelCapture())) return;
+
+    e.preventDefault();
+    const pageHeight = this.canvas.getBoundingClientRect().height;
+    const deltaY = this.wheel.normalize(e.deltaY, e.deltaMode, pageHeight);
+    this.receive({ type: 'wheel', deltaY, time: this.now() });
   };
 
   /**
-   * Handle key up
+   * Handle gamepad connected / disconnected
    */
-  private handleKeyUp = (event: Event): void => {
-    const e = event as KeyboardEvent;
-    this.keyboard.keysPressed.delete(e.key.toLowerCase());
+  private handleGamepadConnection = (): void => {
+    this.pollGamepads();
   };
 
   /**
-   * Handle mouse wheel
+   * Pass live input to the recorder and apply it, unless a replay owns the state
    */
-  private handleWheel = (event: Event): void => {
-    const e = event as WheelEvent;
-    e.preventDefault();
-    this.scrollDelta += e.deltaY;
-  };
+  private receive(input: RecordedInput): void {
+    if (!this.liveInput) return;
+    this.onInputCallback?.(input);
+    this.applyInput(input);
+  }
 
   /**
-   * Handle touch start
+   * Apply one input to the handler's state, exactly as if its DOM event had arrived
+   * Used for live events and by InputReplay; `time` is on the handler's clock.
    */
-  private handleTouchStart = (event: Event): void => {
-    const e = event as TouchEvent;
-    e.preventDefault();
-    
-    if (e.touches.length > 0) {
-      const touch = e.touches[0]!;
-      const rect = this.canvas.getBoundingClientRect();
-      
-      this.pointer.x = ((touch.clientX - rect.left) / rect.width) * 2 - 1;
-      this.pointer.y = -((touch.clientY - rect.top) / rect.height) * 2 + 1;
-      this.pointer.isDown = true;
+  applyInput(input: RecordedInput): void {
+    switch (input.type) {
+      case 'pointermove':
+      case 'pointerdown':
+      case 'pointerup':
+      case 'pointercancel':
+      case 'pointerleave':
+        this.applyPointer(input);
+        break;
+      case 'keydown': {
+        const key = input.key.toLowerCase();
+        this.keyboard.keysPressed.add(key);
+        this.keyboard.lastKey = key;
+        if (!input.repeat) this.keyPressCounts.set(key, (this.keyPressCounts.get(key) ?? 0) + 1);
+        break;
+      }
+      case 'keyup':
+        this.keyboard.keysPressed.delete(input.key.toLowerCase());
+        break;
+      case 'wheel':
+        this.applyWheel(input.deltaY, input.time);
+        break;
+      case 'gamepads':
+        this.applyGamepads(input.gamepads);
+        break;
     }
-  };
+  }
 
   /**
-   * Handle touch move
+   * Update pointer state and feed the gesture recognizer
+   * Pointer state follows the primary pointer only (the first finger on touch).
    */
-  private handleTouchMove = (event: Event): void => {
-    const e = event as TouchEvent;
-    e.preventDefault();
-    
-    if (e.touches.length > 0) {
-      const touch = e.touches[0]!;
-      const rect = this.canvas.getBoundingClientRect();
-      
-      const prevX = this.pointer.x;
-      const prevY = this.pointer.y;
-      
-      this.pointer.x = ((touch.clientX - rect.left) / rect.width) * 2 - 1;
-      this.pointer.y = -((touch.clientY - rect.top) / rect.height) * 2 + 1;
-      
-      this.pointer.deltaX = this.pointer.x - prevX;
-      this.pointer.deltaY = this.pointer.y - prevY;
+  private applyPointer(input: PointerInput): void {
+    this.onPointerInputCallback?.(input, this.nativePointerEvent);
+
+    // Gestures work in client pixels
+    const rect = this.canvas.getBoundingClientRect();
+    const gesturePointer = {
+      pointerId: input.pointerId,
+      pointerType: input.pointerType,
+      clientX: rect.left + ((input.x + 1) / 2) * rect.width,
+      clientY: rect.top + ((1 - input.y) / 2) * rect.height,
+      timeStamp: input.time,
+    };
+
+    switch (input.type) {
+      case 'pointermove': {
+        this.gestures.pointerMove(gesturePointer);
+        if (!input.isPrimary) return;
+
+        this.pointerMovement.x += input.movementX ?? 0;
+        this.pointerMovement.y += input.movementY ?? 0;
+
+        const prevX = this.pointer.x;
+        const prevY = this.pointer.y;
+        this.pointer.x = input.x;
+        this.pointer.y = input.y;
+        this.pointer.deltaX = this.pointer.x - prevX;
+        this.pointer.deltaY = this.pointer.y - prevY;
+        break;
+      }
+      case 'pointerdown':
+        this.gestures.pointerDown(gesturePointer);
+        this.buttonPressCounts.set(
+          input.button,
+          (this.buttonPressCounts.get(input.button) ?? 0) + 1
+        );
+        if (!input.isPrimary) return;
+
+        // Touch has no hover, so the pointer jumps to wherever the finger lands
+        this.pointer.x = input.x;
+        this.pointer.y = input.y;
+        this.pointer.isDown = true;
+        this.pointer.buttons = input.buttons;
+        break;
+      case 'pointerup':
+        this.gestures.pointerUp(gesturePointer);
+        if (!input.isPrimary) return;
+
+        this.pointer.isDown = false;
+        this.pointer.buttons = input.buttons;
+        if (input.pointerType === 'touch') {
+          this.pointer.deltaX = 0;
+          this.pointer.deltaY = 0;
+        }
+        break;
+      case 'pointercancel':
+        // The browser or OS took the pointer over
+        this.gestures.pointerCancel(gesturePointer);
+        if (!input.isPrimary) return;
+
+        this.pointer.isDown = false;
+        this.pointer.buttons = 0;
+        this.pointer.deltaX = 0;
+        this.pointer.deltaY = 0;
+        break;
+      case 'pointerleave':
+        this.pointer.isDown = false;
+        this.pointer.buttons = 0;
+        break;
     }
-  };
+  }
 
   /**
-   * Handle touch end
+   * Scroll, or in snap mode step, by a normalized wheel delta
    */
-  private handleTouchEnd = (): void => {
-    this.pointer.isDown = false;
-    this.pointer.deltaX = 0;
-    this.pointer.deltaY = 0;
+  private applyWheel(deltaY: number, time: number): void {
+    const sample = this.wheel.process(deltaY, time);
+
+    if (!this.wheel.getOptions().snap) this.scrollDelta += sample.delta;
+    if (!sample.inertial) {
+      if (sample.delta < 0) this.wheelTotal.up -= sample.delta;
+      if (sample.delta > 0) this.wheelTotal.down += sample.delta;
+    }
+    if (sample.intent) this.onScrollIntentCallback?.(sample.intent);
+  }
+
+  /**
+   * Count recognized gestures for bindings, then pass them on
+   */
+  private handleGesture = (event: GestureEvent): void => {
+    const gesture = InputHandler.toGestureType(event);
+    if (gesture) this.gestureCounts.set(gesture, (this.gestureCounts.get(gesture) ?? 0) + 1);
+    this.onGestureCallback?.(event);
   };
 
+  /**
+   * Map a discrete gesture to its bindable name; continuous gestures have none
+   */
+  private static toGestureType(event: GestureEvent): GestureType | null {
+    switch (event.type) {
+      case 'tap':
+      case 'doubleTap':
+      case 'longPress':
+        return event.type;
+      case 'swipe':
+        return SWIPE_GESTURES[event.direction];
+      default:
+        return null;
+    }
+  }
+
   /**
    * Get current pointer state
    */
@@ -205,6 +393,17 @@ export class InputHandler {
     return { ...this.pointer };
   }
 
+  /**
+   * Get and consume the primary pointer's movement in CSS pixels (y down)
+   * Unlike the position this keeps changing under pointer lock.
+   */
+  getPointerMovement(): { x: number; y: number } {
+    const movement = { ...this.pointerMovement };
+    this.pointerMovement.x = 0;
+    this.pointerMovement.y = 0;
+    return movement;
+  }
+
   /**
    * Get keyboard state
    */
@@ -231,6 +430,358 @@ export class InputHandler {
     return delta;
   }
 
+  /**
+   * Check if the latest wheel event was part of a trackpad's inertial tail
+   */
+  isWheelInertial(): boolean {
+    return this.wheel.isInertial();
+  }
+
+  /**
+   * Change wheel normalization, inertia detection and snap mode
+   * In snap mode scroll gestures become intents (see setOnScrollIntent) and
+   * getScrollDelta stays 0.
+   */
+  setWheelOptions(options: WheelOptions): void {
+    this.wheel.setOptions(options);
+  }
+
+  /**
+   * Set callback for snap-mode scroll intents: one per gesture, at most one per cooldown
+   */
+  setOnScrollIntent(callback: (intent: ScrollIntent) => void): void {
+    this.onScrollIntentCallback = callback;
+  }
+
+  /**
+   * Decide per wheel event whether the canvas is the active scroll target
+   * When the check returns false the event is ignored and the page scrolls as usual;
+   * null (the default) captures every wheel event over the canvas.
+   */
+  setWheelCapture(check: (() => boolean) | null): void {
+    this.wheelCapture = check;
+  }
+
+  /**
+   * Get total wheel distance scrolled up and down so far (not consumed by reading)
+   * Inertial tails are left out, so a single trackpad flick counts once.
+   */
+  getWheelTotal(): Readonly<{ up: number; down: number }> {
+    return { ...this.wheelTotal };
+  }
+
+  /**
+   * Get how many times a key has been pressed so far (auto-repeat excluded)
+   */
+  getKeyPressCount(key: string): number {
+    return this.keyPressCounts.get(key.toLowerCase()) ?? 0;
+  }
+
+  /**
+   * Get how many times a pointer button has been pressed so far
+   */
+  getButtonPressCount(button: number): number {
+    return this.buttonPressCounts.get(button) ?? 0;
+  }
+
+  /**
+   * Check if a pointer button is held (0 primary, 1 middle, 2 secondary, 3 back, 4 forward)
+   */
+  isButtonPressed(button: number): boolean {
+    // PointerEvent.buttons orders middle and secondary the other way round
+    const bit = button === 1 ? 4 : button === 2 ? 2 : 1 << button;
+    return (this.pointer.buttons & bit) !== 0;
+  }
+
+  /**
+   * Get how many times a gesture has been recognized so far
+   */
+  getGestureCount(gesture: GestureType): number {
+    return this.gestureCounts.get(gesture) ?? 0;
+  }
+
+  /**
+   * Get the gestures of the current frame (see update)
+   */
+  getGestureState(): Readonly<GestureFrameState> {
+    return this.gestures.getState();
+  }
+
+  /**
+   * Set callback fired as soon as a gesture is recognized
+   * Continuous gestures (pinch, pan, rotate) fire on every move.
+   */
+  setOnGesture(callback: (event: GestureEvent) => void): void {
+    this.onGestureCallback = callback;
+  }
+
+  /**
+   * Change gesture recognition thresholds
+   */
+  setGestureThresholds(thresholds: GestureThresholds): void {
+    this.gestures.setThresholds(thresholds);
+  }
+
+  /**
+   * Get the controller used most recently, or null if none is connected
+   */
+  getGamepadState(): Readonly<GamepadInputState> | null {
+    const state = this.activeGamepad !== null ? this.gamepads.get(this.activeGamepad) : undefined;
+    return state ? InputHandler.copyGamepad(state) : null;
+  }
+
+  /**
+   * Get every connected controller
+   */
+  getGamepads(): Readonly<GamepadInputState>[] {
+    return [...this.gamepads.values()].map((state) => InputHandler.copyGamepad(state));
+  }
+
+  /**
+   * Check if a button is held on any controller (by name or standard mapping index)
+   */
+  isGamepadButtonPressed(button: GamepadButtonName | number): boolean {
+    const index = typeof button === 'number' ? button : GAMEPAD_BUTTONS.indexOf(button);
+    return [...this.gamepads.values()].some((state) => state.buttons[index] ?? false);
+  }
+
+  /**
+   * Set callback for controllers connecting and disconnecting
+   */
+  setOnGamepadConnection(
+    callback: (gamepad: Readonly<GamepadInputState>, connected: boolean) => void
+  ): void {
+    this.onGamepadConnectionCallback = callback;
+  }
+
+  /**
+   * Change stick and trigger dead zones
+   */
+  setGamepadOptions(options: GamepadOptions): void {
+    this.gamepadOptions = { ...this.gamepadOptions, ...options };
+  }
+
+  /**
+   * Publish gestures collected since the last call and poll gamepads
+   * (call once per frame, before reading)
+   */
+  update(): void {
+    this.pollGamepads();
+    this.gestures.update(this.now());
+  }
+
+  /**
+   * Set callback receiving every live input before it is applied (see InputRecorder)
+   */
+  setOnInput(callback: ((input: RecordedInput) => void) | null): void {
+    this.onInputCallback = callback;
+  }
+
+  /**
+   * Set callback for every applied pointer input, live or replayed (see InteractionManager)
+   * `nativeEvent` is the DOM event for live input and null during a replay.
+   */
+  setOnPointerInput(
+    callback: ((input: PointerInput, nativeEvent: PointerEvent | null) => void) | null
+  ): void {
+    this.onPointerInputCallback = callback;
+  }
+
+  /**
+   * Turn DOM events and gamepad polling on or off; off while a replay feeds applyInput
+   */
+  setLiveInput(enabled: boolean): void {
+    this.liveInput = enabled;
+    if (enabled) this.gamepadSnapshot = '[]';
+  }
+
+  /**
+   * Check if DOM events and gamepads are being read
+   */
+  isLiveInput(): boolean {
+    return this.liveInput;
+  }
+
+  /**
+   * Replace the clock (ms) used to timestamp input and time gestures; null restores
+   * performance.now()
+   */
+  setClock(clock: (() => number) | null): void {
+    this.clock = clock;
+  }
+
+  /**
+   * Current time on the handler's clock, in ms
+   */
+  now(): number {
+    return this.clock ? this.clock() : performance.now();
+  }
+
+  /**
+   * Get the canvas size in CSS pixels
+   */
+  getCanvasSize(): { width: number; height: number } {
+    const rect = this.canvas.getBoundingClientRect();
+    return { width: rect.width, height: rect.height };
+  }
+
+  /**
+   * Forget held keys and buttons, pointer position, scroll, gestures and gamepads
+   * Press counters keep counting, so ActionMap sees no phantom presses.
+   */
+  resetState(): void {
+    this.pointer = { x: 0, y: 0, deltaX: 0, deltaY: 0, isDown: false, buttons: 0 };
+    this.keyboard.keysPressed.clear();
+    this.keyboard.lastKey = null;
+    this.scrollDelta = 0;
+    this.pointerMovement = { x: 0, y: 0 };
+    this.wheel.reset();
+    this.gestures.reset();
+    this.gamepads.clear();
+    this.activeGamepad = null;
+    this.gamepadSnapshot = '[]';
+  }
+
+  /**
+   * Read every connected controller; changes go through receive() like DOM input
+   * Polling rather than trusting the events alone also catches pads that browsers only
+   * reveal on their first button press, and a mocked navigator.getGamepads in tests.
+   */
+  private pollGamepads(): void {
+    if (!this.liveInput) return;
+
+    // Only changes become inputs, so idle controllers add nothing to recordings
+    const states = InputHandler.readGamepads().map((gamepad) => this.readGamepad(gamepad));
+    const snapshot = JSON.stringify(states);
+    if (snapshot === this.gamepadSnapshot) return;
+
+    this.gamepadSnapshot = snapshot;
+    this.receive({ type: 'gamepads', gamepads: states, time: this.now() });
+  }
+
+  /**
+   * Replace controller state, reporting connects and disconnects
+   */
+  private applyGamepads(states: GamepadInputState[]): void {
+    const seen = new Set<number>();
+
+    states.forEach((source) => {
+      const state = InputHandler.copyGamepad(source);
+      const isNew = !this.gamepads.has(state.index);
+      seen.add(state.index);
+      this.gamepads.set(state.index, state);
+
+      if (isNew) this.onGamepadConnectionCallback?.(InputHandler.copyGamepad(state), true);
+      // The first pad, then whichever one was touched last
+      if (this.activeGamepad === null || InputHandler.hasInput(state)) {
+        this.activeGamepad = state.index;
+      }
+    });
+
+    this.gamepads.forEach((state, index) => {
+      if (seen.has(index)) return;
+      this.gamepads.delete(index);
+      if (this.activeGamepad === index) {
+        this.activeGamepad = this.gamepads.keys().next().value ?? null;
+      }
+      this.onGamepadConnectionCallback?.(InputHandler.copyGamepad(state), false);
+    });
+  }
+
+  /**
+   * Normalize one controller: dead zones, y-up sticks and standard button order
+   * Non-standard pads keep their button order (most drivers agree on face and shoulder
+   * buttons); a D-pad reported as a hat on axes 6/7 is mapped to the D-pad buttons.
+   */
+  private readGamepad(gamepad: Gamepad): GamepadInputState {
+    const standard = gamepad.mapping === 'standard';
+    const buttons = GAMEPAD_BUTTONS.map((_, index) => gamepad.buttons[index]?.pressed ?? false);
+
+    if (!standard && gamepad.buttons.length < 16 && gamepad.axes.length >= 8) {
+      const hatX = gamepad.axes[6] ?? 0;
+      const hatY = gamepad.axes[7] ?? 0;
+      buttons[12] = hatY < -0.5;
+      buttons[13] = hatY > 0.5;
+      buttons[14] = hatX < -0.5;
+      buttons[15] = hatX > 0.5;
+    }
+
+    return {
+      index: gamepad.index,
+      id: gamepad.id,
+      standard,
+      leftStick: this.applyDeadZone(gamepad.axes[0] ?? 0, gamepad.axes[1] ?? 0),
+      rightStick: this.applyDeadZone(gamepad.axes[2] ?? 0, gamepad.axes[3] ?? 0),
+      leftTrigger: this.applyTriggerDeadZone(gamepad.buttons[6]?.value ?? 0),
+      rightTrigger: this.applyTriggerDeadZone(gamepad.buttons[7]?.value ?? 0),
+      buttons,
+      timestamp: gamepad.timestamp,
+    };
+  }
+
+  /**
+   * Radial dead zone, rescaled so output starts at 0 just outside it and reaches 1 at full tilt
+   * Gamepad axes point y down; the result points y up.
+   */
+  private applyDeadZone(x: number, y: number): StickState {
+    const deadZone = Math.min(Math.max(this.gamepadOptions.deadZone, 0), 0.99);
+    const magnitude = Math.hypot(x, y);
+    if (magnitude <= deadZone) return { x: 0, y: 0 };
+
+    const scale = Math.min((magnitude - deadZone) / (1 - deadZone), 1) / magnitude;
+    return { x: x * scale, y: -y * scale };
+  }
+
+  /**
+   * Ignore the first bit of trigger travel, rescaling the rest to 0..1
+   */
+  private applyTriggerDeadZone(value: number): number {
+    const deadZone = Math.min(Math.max(this.gamepadOptions.triggerDeadZone, 0), 0.99);
+    return value <= deadZone ? 0 : Math.min((value - deadZone) / (1 - deadZone), 1);
+  }
+
+  /**
+   * Check if a controller has any stick, trigger or button input
+   */
+  private static hasInput(state: GamepadInputState): boolean {
+    return (
+      state.buttons.some(Boolean) ||
+      state.leftStick.x !== 0 ||
+      state.leftStick.y !== 0 ||
+      state.rightStick.x !== 0 ||
+      state.rightStick.y !== 0 ||
+      state.leftTrigger > 0 ||
+      state.rightTrigger > 0
+    );
+  }
+
+  /**
+   * Copy a controller's state so callers cannot mutate it
+   */
+  private static copyGamepad(state: GamepadInputState): GamepadInputState {
+    return {
+      ...state,
+      leftStick: { ...state.leftStick },
+      rightStick: { ...state.rightStick },
+      buttons: [...state.buttons],
+    };
+  }
+
+  /**
+   * Connected gamepads (empty where the Gamepad API is missing or blocked)
+   */
+  private static readGamepads(): Gamepad[] {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+    try {
+      return navigator
+        .getGamepads()
+        .filter((gamepad): gamepad is Gamepad => gamepad !== null && gamepad.connected !== false);
+    } catch {
+      // Permissions policy can forbid the API in embedded frames
+      return [];
+    }
+  }
+
   /**
    * Get raycaster for intersection tests
    * Updates raycaster with current pointer position and camera
@@ -255,14 +806,28 @@ export class InputHandler {
    * Cleanup event listeners
    */
   dispose(): void {
-    this.boundHandlers.forEach((handler, event) => {
-      if (event === 'keydown' || event === 'keyup') {
-        window.removeEventListener(event, handler);
-      } else {
-        this.canvas.removeEventListener(event, handler);
-      }
+    this.boundHandlers.forEach(({ handler, target }, event) => {
+      target.removeEventListener(event, handler);
     });
     this.boundHandlers.clear();
     this.keyboard.keysPressed.clear();
+    this.gestures.reset();
+    this.gamepads.clear();
+    this.activeGamepad = null;
+    this.onInputCallback = null;
+    this.onPointerInputCallback = null;
   }
 }
+
+/**
+ * Check whether a key event's target takes text input (form fields, contenteditable)
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    target.isContentEditable
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * InputRecorder.ts
+ * Captures the input stream InputHandler sees, frame by frame
+ * Constitution Principle III: Stability (bugs reproduce from a recording, not a description)
+ */
+
+import type { InputHandler } from './InputHandler';
+import type { InputRecording, RecordedFrame, RecordedInput } from '../types/InputRecording';
+
+export class InputRecorder {
+  private input: InputHandler;
+  private recording: boolean = false;
+  private startTime: number = 0;
+  private viewport = { width: 0, height: 0 };
+  private frames: RecordedFrame[] = [];
+  private pending: RecordedInput[] = [];
+
+  constructor(input: InputHandler) {
+    this.input = input;
+  }
+
+  /**
+   * Start a new recording, discarding any previous one
+   * Input already held (pointer position, keys, gamepads) is recorded first, so a replay
+   * starts from the same state.
+   */
+  start(): void {
+    this.startTime = this.input.now();
+    this.viewport = this.input.getCanvasSize();
+    this.frames = [];
+    this.pending = [];
+
+    const pointer = this.input.getPointerState();
+    this.pending.push({
+      type: 'pointermove',
+      pointerId: 1,
+      pointerType: 'mouse',
+      isPrimary: true,
+      button: -1,
+      buttons: pointer.buttons,
+      x: pointer.x,
+      y: pointer.y,
+      time: 0,
+    });
+    // Repeats hold the keys without counting as fresh presses
+    this.input.getKeyboardState().keysPressed.forEach((key) => {
+      this.pending.push({ type: 'keydown', key, repeat: true, time: 0 });
+    });
+    const gamepads = this.input.getGamepads();
+    if (gamepads.length > 0) this.pending.push({ type: 'gamepads', gamepads, time: 0 });
+
+    this.input.setOnInput((input) => {
+      this.pending.push({ ...input, time: input.time - this.startTime });
+    });
+    this.recording = true;
+  }
+
+  /**
+   * Close the current frame (call once per frame, after InputHandler.update)
+   */
+  captureFrame(delta: number): void {
+    if (!this.recording) return;
+    this.frames.push({ delta, inputs: this.pending });
+    this.pending = [];
+  }
+
+  /**
+   * Stop and return the recording; input after the last captured frame is dropped
+   */
+  stop(): InputRecording {
+    if (this.recording) this.input.setOnInput(null);
+    this.recording = false;
+    this.pending = [];
+    return { version: 1, viewport: { ...this.viewport }, frames: this.frames };
+  }
+
+  /**
+   * Check if a recording is in progress
+   */
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * Get the number of frames captured so far
+   */
+  getFrameCount(): number {
+    return this.frames.length;
+  }
+}
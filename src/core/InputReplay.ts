@@ -0,0 +1,115 @@
+/**
+ * InputReplay.ts
+ * Plays an InputRecording back into InputHandler at the recorded frame timing
+ * Constitution Principle III: Stability (bugs reproduce from a recording, not a description)
+ */
+
+import type { InputHandler } from './InputHandler';
+import type { InputRecording } from '../types/InputRecording';
+
+export interface InputReplayOptions {
+  /**
+   * Seconds per frame; null replays the recorded frame deltas (default)
+   * Either way every run of the same recording sees the same deltas; a fixed step also
+   * makes replays independent of the frame rate they were recorded at.
+   */
+  fixedTimestep?: number | null;
+}
+
+export class InputReplay {
+  private input: InputHandler;
+  private recording: InputRecording;
+  private fixedTimestep: number | null;
+
+  private playing: boolean = false;
+  private frameIndex: number = 0;
+  private time: number = 0; // ms on the replay clock
+  private onCompleteCallback: (() => void) | null = null;
+
+  constructor(input: InputHandler, recording: InputRecording, options: InputReplayOptions = {}) {
+    this.input = input;
+    this.recording = recording;
+    this.fixedTimestep = options.fixedTimestep ?? null;
+  }
+
+  /**
+   * Take over InputHandler: live input is ignored and state restarts from nothing
+   * Feed frames with nextFrame, e.g. from SceneManager.setFrameClock.
+   */
+  start(): void {
+    this.frameIndex = 0;
+    this.time = 0;
+    this.input.setLiveInput(false);
+    this.input.resetState();
+    this.input.setClock(() => this.time);
+    this.playing = true;
+  }
+
+  /**
+   * Apply the next frame's input and return its delta (seconds)
+   * Past the last frame the replay stops, hands input back and returns `wallDelta`.
+   */
+  nextFrame(wallDelta: number): number {
+    if (!this.playing) return wallDelta;
+
+    const frame = this.recording.frames[this.frameIndex];
+    if (!frame) {
+      this.stop();
+      this.onCompleteCallback?.();
+      return wallDelta;
+    }
+
+    const delta = this.fixedTimestep ?? frame.delta;
+    this.time += delta * 1000;
+    this.frameIndex++;
+
+    // With a fixed step the recorded times no longer match the clock, so input lands at
+    // its frame's time instead
+    frame.inputs.forEach((input) => {
+      this.input.applyInput({
+        ...input,
+        time: this.fixedTimestep === null ? input.time : this.time,
+      });
+    });
+    return delta;
+  }
+
+  /**
+   * Stop early and give input back to the user
+   */
+  stop(): void {
+    if (!this.playing) return;
+    this.playing = false;
+    this.input.setClock(null);
+    this.input.resetState();
+    this.input.setLiveInput(true);
+  }
+
+  /**
+   * Check if the replay is running
+   */
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * Get the index of the next frame to play
+   */
+  getFrame(): number {
+    return this.frameIndex;
+  }
+
+  /**
+   * Get the number of recorded frames
+   */
+  getFrameCount(): number {
+    return this.recording.frames.length;
+  }
+
+  /**
+   * Set callback for when the last frame has been played
+   */
+  setOnComplete(callback: () => void): void {
+    this.onCompleteCallback = callback;
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * InspectControls.ts
+ * Pointer, wheel and keyboard bindings for CameraController's inspect mode
+ * Constitution Principle V: Accessibility & Input Gracefulness (every gesture has a key)
+ */
+
+import { CameraController } from './CameraController';
+import type { GamepadInputState } from '../types/Gamepad';
+
+export interface InspectControlsOptions {
+  rotateSpeed?: number; // full canvas-width drag = rotateSpeed * 2π (default: 1)
+  panSpeed?: number; // default: 1
+  zoomSpeed?: number; // default: 1
+  keyRotateStep?: number; // radians per arrow key press (default: π/24)
+  keyPanStep?: number; // fraction of target distance per Shift+arrow press (default: 0.05)
+  keyZoomStep?: number; // per +/- press (default: 0.2)
+  stickRotateSpeed?: number; // radians per second at full right-stick tilt (default: π)
+  stickPanSpeed?: number; // target distances per second at full left-stick tilt (default: 1)
+  stickZoomSpeed?: number; // dolly per second at full trigger (default: 2)
+}
+
+/**
+ * Drag (or arrows) orbits, right/Shift-drag (or Shift+arrows) pans, wheel (or +/-) dollies,
+ * [ and ] step back and forward through visited viewpoints
+ * On a gamepad the right stick orbits, the left stick pans and the triggers dolly.
+ * Input reaches the camera only while it is in inspect mode.
+ */
+export class InspectControls {
+  private cameraController: CameraController;
+  private element: HTMLElement;
+  private options: Required<InspectControlsOptions>;
+
+  private enabled: boolean = false;
+  private dragPointerId: number | null = null;
+  private dragMode: 'orbit' | 'pan' = 'orbit';
+  private lastPointer = { x: 0, y: 0 };
+
+  constructor(
+    cameraController: CameraController,
+    element: HTMLElement,
+    options: InspectControlsOptions = {}
+  ) {
+    this.cameraController = cameraController;
+    this.element = element;
+    this.options = {
+      rotateSpeed: options.rotateSpeed ?? 1,
+      panSpeed: options.panSpeed ?? 1,
+      zoomSpeed: options.zoomSpeed ?? 1,
+      keyRotateStep: options.keyRotateStep ?? Math.PI / 24,
+      keyPanStep: options.keyPanStep ?? 0.05,
+      keyZoomStep: options.keyZoomStep ?? 0.2,
+      stickRotateSpeed: options.stickRotateSpeed ?? Math.PI,
+      stickPanSpeed: options.stickPanSpeed ?? 1,
+      stickZoomSpeed: options.stickZoomSpeed ?? 2,
+    };
+  }
+
+  /**
+   * Start listening for input
+   */
+  enable(): void {
+    if (this.enabled) return;
+    this.enabled = true;
+
+    this.element.addEventListener('pointerdown', this.handlePointerDown);
+    this.element.addEventListener('pointermove', this.handlePointerMove);
+    this.element.addEventListener('pointerup', this.handlePointerUp);
+    this.element.addEventListener('pointercancel', this.handlePointerUp);
+    this.element.addEventListener('wheel', this.handleWheel, { passive: false });
+    this.element.addEventListener('contextmenu', this.handleContextMenu);
+    window.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  /**
+   * Stop listening for input
+   */
+  disable(): void {
+    if (!this.enabled) return;
+    this.enabled = false;
+
+    this.element.removeEventListener('pointerdown', this.handlePointerDown);
+    this.element.removeEventListener('pointermove', this.handlePointerMove);
+    this.element.removeEventListener('pointerup', this.handlePointerUp);
+    this.element.removeEventListener('pointercancel', this.handlePointerUp);
+    this.element.removeEventListener('wheel', this.handleWheel);
+    this.element.removeEventListener('contextmenu', this.handleContextMenu);
+    window.removeEventListener('keydown', this.handleKeyDown);
+    this.endDrag();
+  }
+
+  /**
+   * Check if input is being listened to
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Apply one frame of controller input (sticks are polled, so call this every frame)
+   */
+  applyGamepad(gamepad: Readonly<GamepadInputState> | null, delta: number): void {
+    if (!gamepad || !this.enabled || !this.cameraController.isInspecting()) return;
+
+    const { stickRotateSpeed, stickPanSpeed, stickZoomSpeed } = this.options;
+    const { leftStick, rightStick } = gamepad;
+
+    if (rightStick.x !== 0 || rightStick.y !== 0) {
+      this.cameraController.orbit(
+        rightStick.x * stickRotateSpeed * delta,
+        rightStick.y * stickRotateSpeed * delta
+      );
+    }
+    if (leftStick.x !== 0 || leftStick.y !== 0) {
+      this.cameraController.pan(
+        leftStick.x * stickPanSpeed * delta,
+        leftStick.y * stickPanSpeed * delta
+      );
+    }
+
+    const zoom = gamepad.rightTrigger - gamepad.leftTrigger;
+    if (zoom !== 0) this.cameraController.dolly(zoom * stickZoomSpeed * delta);
+  }
+
+  /**
+   * Handle pointer down: start an orbit or pan drag
+   */
+  private handlePointerDown = (event: PointerEvent): void => {
+    if (!this.cameraController.isInspecting() || this.dragPointerId !== null) return;
+
+    this.dragPointerId = event.pointerId;
+    this.dragMode = event.button === 2 || event.shiftKey ? 'pan' : 'orbit';
+    this.lastPointer = { x: event.clientX, y: event.clientY };
+    this.element.setPointerCapture(event.pointerId);
+  };
+
+  /**
+   * Handle pointer move: convert the drag distance to orbit or pan input
+   */
+  private handlePointerMove = (event: PointerEvent): void => {
+    if (event.pointerId !== this.dragPointerId) return;
+
+    const rect = this.element.getBoundingClientRect();
+    const dx = (event.clientX - this.lastPointer.x) / Math.max(rect.width, 1);
+    const dy = (event.clientY - this.lastPointer.y) / Math.max(rect.height, 1);
+    this.lastPointer = { x: event.clientX, y: event.clientY };
+
+    if (this.dragMode === 'orbit') {
+      // Dragging right turns the model right, i.e. the camera orbits left
+      const rotation = 2 * Math.PI * this.options.rotateSpeed;
+      this.cameraController.orbit(-dx * rotation, dy * rotation);
+    } else {
+      // The model follows the pointer
+      this.cameraController.pan(-dx * this.options.panSpeed, dy * this.options.panSpeed);
+    }
+  };
+
+  /**
+   * Handle pointer up / cancel
+   */
+  private handlePointerUp = (event: PointerEvent): void => {
+    if (event.pointerId === this.dragPointerId) this.endDrag();
+  };
+
+  /**
+   * Handle mouse wheel: dolly
+   */
+  private handleWheel = (event: WheelEvent): void => {
+    if (!this.cameraController.isInspecting()) return;
+
+    event.preventDefault();
+    this.cameraController.dolly(-event.deltaY * 0.002 * this.options.zoomSpeed);
+  };
+
+  /**
+   * Keep right-drag panning from opening the context menu
+   */
+  private handleContextMenu = (event: MouseEvent): void => {
+    if (this.cameraController.isInspecting()) event.preventDefault();
+  };
+
+  /**
+   * Handle key down: arrows orbit (Shift+arrows pan), +/- dolly, [ / ] pose history
+   */
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (!this.cameraController.isInspecting() || this.isTextInput(event.target)) return;
+
+    const { keyRotateStep, keyPanStep, keyZoomStep } = this.options;
+    const pan = event.shiftKey;
+
+    switch (event.key) {
+      case 'ArrowLeft':
+        if (pan) this.cameraController.pan(-keyPanStep, 0);
+        else this.cameraController.orbit(-keyRotateStep, 0);
+        break;
+      case 'ArrowRight':
+        if (pan) this.cameraController.pan(keyPanStep, 0);
+        else this.cameraController.orbit(keyRotateStep, 0);
+        break;
+      case 'ArrowUp':
+        if (pan) this.cameraController.pan(0, keyPanStep);
+        else this.cameraController.orbit(0, keyRotateStep);
+        break;
+      case 'ArrowDown':
+        if (pan) this.cameraController.pan(0, -keyPanStep);
+        else this.cameraController.orbit(0, -keyRotateStep);
+        break;
+      case '+':
+      case '=':
+        this.cameraController.dolly(keyZoomStep);
+        break;
+      case '-':
+      case '_':
+        this.cameraController.dolly(-keyZoomStep);
+        break;
+      case '[':
+        void this.cameraController.back();
+        break;
+      case ']':
+        void this.cameraController.forward();
+        break;
+      default:
+        return;
+    }
+
+    // Arrows would otherwise scroll the page
+    event.preventDefault();
+  };
+
+  /**
+   * Release the active drag
+   */
+  private endDrag(): void {
+    if (this.dragPointerId !== null && this.element.hasPointerCapture(this.dragPointerId)) {
+      this.element.releasePointerCapture(this.dragPointerId);
+    }
+    this.dragPointerId = null;
+  }
+
+  /**
+   * Keys typed into form fields are not camera input
+   */
+  private isTextInput(target: EventTarget | null): boolean {
+    return (
+      target instanceof HTMLInputElement ||
+      target instanceof HTMLTextAreaElement ||
+      (target instanceof HTMLElement && target.isContentEditable)
+    );
+  }
+
+  /**
+   * Cleanup
+   */
+  dispose(): void {
+    this.disable();
+  }
+}
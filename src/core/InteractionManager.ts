@@ -0,0 +1,596 @@
+/**
+ * InteractionManager.ts
+ * Hover, click and drag events for registered 3D objects, from one raycast per frame
+ * Constitution Principle II: Smooth Performance & Motion Quality (BVH-accelerated picking)
+ * Constitution Principle V: Accessibility & Input Gracefulness (3D elements behave like buttons)
+ */
+
+import * as THREE from 'three';
+import { acceleratedRaycast, computeBoundsTree, disposeBoundsTree } from 'three-mesh-bvh';
+import type { InputHandler } from './InputHandler';
+import type { PointerInput } from '../types/InputRecording';
+import type {
+  AccessibleOptions,
+  InteractionEvent,
+  InteractionEventType,
+  InteractionHandlers,
+  InteractiveOptions,
+} from '../types/Interaction';
+
+interface Registration {
+  handlers: InteractionHandlers;
+  cursor: string;
+  draggable: boolean;
+  accelerated: THREE.BufferGeometry[]; // geometries this registration built a BVH for
+  accessible: AccessibleOptions | null;
+}
+
+/**
+ * Pointer down/up/cancel waiting for the next update
+ */
+interface QueuedPointer {
+  input: PointerInput;
+  nativeEvent: PointerEvent | null; // null when replayed
+}
+
+/**
+ * Primary button held on a registered object
+ */
+interface PressState {
+  pointerId: number;
+  chain: THREE.Object3D[]; // registered objects under the press, deepest first
+  dragOwner: THREE.Object3D | null; // nearest draggable object in the chain
+  startX: number; // canvas pixels
+  startY: number;
+  plane: THREE.Plane; // camera-facing plane through the pressed point
+  dragging: boolean;
+}
+
+// Meshes with fewer triangles raycast fast enough without a BVH
+const BVH_MIN_TRIANGLES = 2000;
+
+// Pointer travel (pixels) before a press becomes a drag
+const DRAG_THRESHOLD = 4;
+
+export class InteractionManager {
+  private static instance: InteractionManager | null = null;
+
+  private canvas: HTMLCanvasElement | null = null;
+  private input: InputHandler | null = null;
+  private camera: THREE.Camera | null = null;
+  private scene: THREE.Scene | null = null;
+  private layers: THREE.Layers | null = null;
+
+  private registrations: Map<THREE.Object3D, Registration> = new Map();
+  // Geometries shared between registrations keep their BVH until the last one leaves
+  private bvhUsers: Map<THREE.BufferGeometry, number> = new Map();
+
+  private raycaster = new THREE.Raycaster();
+  private pointer = new THREE.Vector2();
+  private pixelX: number = 0; // canvas pixels, for the drag threshold
+  private pixelY: number = 0;
+  private pointerInside: boolean = false;
+  private pointerMoved: boolean = false;
+  private queue: QueuedPointer[] = [];
+
+  private hovered: THREE.Object3D[] = []; // deepest first
+  private hoverIntersection: THREE.Intersection | null = null;
+  private press: PressState | null = null;
+  private cursor: string = '';
+  private onRegistrationChangeCallback: (() => void) | null = null;
+
+  private constructor() {
+    // three-mesh-bvh's documented setup; meshes without a bounds tree raycast as before
+    THREE.BufferGeometry.prototype.computeBoundsTree = computeBoundsTree;
+    THREE.BufferGeometry.prototype.disposeBoundsTree = disposeBoundsTree;
+    THREE.Mesh.prototype.raycast = acceleratedRaycast;
+    this.raycaster.firstHitOnly = true;
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): InteractionManager {
+    if (!InteractionManager.instance) {
+      InteractionManager.instance = new InteractionManager();
+    }
+    return InteractionManager.instance;
+  }
+
+  /**
+   * Take pointer input from InputHandler and pick through the camera
+   * Going through InputHandler means replays (see InputReplay) hover, click and drag too.
+   */
+  attach(canvas: HTMLCanvasElement, camera: THREE.Camera, input: InputHandler): void {
+    this.detach();
+    this.canvas = canvas;
+    this.camera = camera;
+    this.input = input;
+    input.setOnPointerInput(this.handlePointerInput);
+  }
+
+  /**
+   * Stop taking input, ending any hover or drag in progress
+   */
+  detach(): void {
+    this.reset();
+    this.input?.setOnPointerInput(null);
+    this.input = null;
+    this.canvas = null;
+    this.camera = null;
+  }
+
+  /**
+   * Limit picking to registered objects inside this scene (set by SceneManager)
+   */
+  setScene(scene: THREE.Scene | null): void {
+    if (scene === this.scene) return;
+    this.reset();
+    this.scene = scene;
+    this.onRegistrationChangeCallback?.();
+  }
+
+  /**
+   * Pick only objects enabled on these layers; null follows the camera's layers (default)
+   */
+  setLayers(layers: THREE.Layers | null): void {
+    this.layers = layers;
+  }
+
+  /**
+   * Receive pointer events for an object and its descendants
+   * Registering again replaces the handlers and rebuilds BVHs for newly added meshes.
+   * Only registered objects are raycast, so unregistered meshes never block a hit.
+   */
+  register(
+    object: THREE.Object3D,
+    handlers: InteractionHandlers,
+    options: InteractiveOptions = {}
+  ): void {
+    const previous = this.registrations.get(object);
+    const draggable =
+      options.draggable ?? Boolean(handlers.dragstart || handlers.drag || handlers.dragend);
+    const registration: Registration = {
+      handlers,
+      cursor: options.cursor ?? (draggable ? 'grab' : 'pointer'),
+      draggable,
+      accelerated: previous?.accelerated ?? [],
+      accessible: options.accessible ?? null,
+    };
+    this.registrations.set(object, registration);
+
+    if (options.accelerate ?? true) this.accelerate(object, registration);
+    this.onRegistrationChangeCallback?.();
+  }
+
+  /**
+   * Stop delivering events to an object (e.g. from Scene.dispose)
+   */
+  unregister(object: THREE.Object3D): void {
+    const registration = this.registrations.get(object);
+    if (!registration) return;
+
+    if (this.press?.chain.includes(object)) this.cancelPress(null);
+    if (this.hovered.includes(object)) {
+      this.hovered = this.hovered.filter((hovered) => hovered !== object);
+      this.applyCursor();
+    }
+
+    registration.accelerated.forEach((geometry) => this.releaseBVH(geometry));
+    this.registrations.delete(object);
+    this.onRegistrationChangeCallback?.();
+  }
+
+  /**
+   * Check if an object is registered
+   */
+  isRegistered(object: THREE.Object3D): boolean {
+    return this.registrations.has(object);
+  }
+
+  /**
+   * Get registered objects in the current scene that have accessible options,
+   * in registration order
+   */
+  getAccessibleObjects(): { object: THREE.Object3D; accessible: AccessibleOptions }[] {
+    const objects: { object: THREE.Object3D; accessible: AccessibleOptions }[] = [];
+    this.registrations.forEach((registration, object) => {
+      if (registration.accessible && this.isInScene(object)) {
+        objects.push({ object, accessible: { ...registration.accessible } });
+      }
+    });
+    return objects;
+  }
+
+  /**
+   * Send a click to an object as if it had been clicked, e.g. from the keyboard
+   * There is no hit: the intersection is null and the point is the object's world position.
+   */
+  activate(object: THREE.Object3D): void {
+    if (!this.registrations.has(object)) return;
+    const point = object.getWorldPosition(new THREE.Vector3());
+    this.dispatch('click', this.chainFrom(object), null, point, null);
+  }
+
+  /**
+   * Set callback for registrations being added, removed or changed, or the scene changing
+   */
+  setOnRegistrationChange(callback: (() => void) | null): void {
+    this.onRegistrationChangeCallback = callback;
+  }
+
+  /**
+   * Get the deepest registered object under the pointer, or null
+   */
+  getHovered(): THREE.Object3D | null {
+    return this.hovered[0] ?? null;
+  }
+
+  /**
+   * Raycast once and deliver this frame's events (called by SceneManager after the camera moves)
+   */
+  update(): void {
+    const queue = this.queue;
+    this.queue = [];
+    if (!this.canvas || !this.camera) return;
+
+    const intersection = this.pick();
+
+    // Hover stays on the dragged object, like pointer capture in the DOM
+    if (!this.press?.dragging) {
+      this.hoverIntersection = intersection;
+      this.setHovered(intersection ? this.chainFrom(intersection.object) : []);
+    }
+
+    queue.forEach((pointer) => {
+      if (pointer.input.type === 'pointerdown') this.handleDown(pointer, intersection);
+      else if (pointer.input.type === 'pointerup') this.handleUp(pointer, intersection);
+      else this.cancelPress(pointer);
+    });
+
+    if (this.press && this.pointerMoved) this.updateDrag();
+    this.pointerMoved = false;
+  }
+
+  /**
+   * Cast the frame's single ray and return the nearest visible hit on a registered object
+   */
+  private pick(): THREE.Intersection | null {
+    if (!this.camera || !this.pointerInside) return null;
+
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+    this.raycaster.layers.mask = (this.layers ?? this.camera.layers).mask;
+
+    // Registered descendants are covered by the recursive test of their registered ancestor
+    const roots = [...this.registrations.keys()].filter(
+      (object) => this.isInScene(object) && !this.hasRegisteredAncestor(object)
+    );
+    if (roots.length === 0) return null;
+
+    const hits = this.raycaster.intersectObjects(roots, true);
+    return hits.find((hit) => isVisible(hit.object)) ?? null;
+  }
+
+  /**
+   * Start a press, bubbling pointerdown from the deepest registered object
+   */
+  private handleDown(pointer: QueuedPointer, intersection: THREE.Intersection | null): void {
+    if (!intersection || !this.camera) return;
+    const { input, nativeEvent } = pointer;
+    const chain = this.chainFrom(intersection.object);
+    this.dispatch('pointerdown', chain, intersection, intersection.point, nativeEvent);
+
+    if (input.button !== 0 || this.press) return;
+
+    const dragOwner = chain.find((object) => this.registrations.get(object)?.draggable) ?? null;
+    const normal = this.camera.getWorldDirection(new THREE.Vector3()).negate();
+    this.press = {
+      pointerId: input.pointerId,
+      chain,
+      dragOwner,
+      startX: this.pixelX,
+      startY: this.pixelY,
+      plane: new THREE.Plane().setFromNormalAndCoplanarPoint(normal, intersection.point),
+      dragging: false,
+    };
+
+    // Keep receiving moves while dragging outside the canvas (live pointers only)
+    if (dragOwner && nativeEvent && this.canvas?.isConnected) {
+      try {
+        this.canvas.setPointerCapture(input.pointerId);
+      } catch {
+        // The pointer is already gone (e.g. released in the same frame)
+      }
+    }
+  }
+
+  /**
+   * Bubble pointerup, then finish the press with dragend or click
+   */
+  private handleUp(pointer: QueuedPointer, intersection: THREE.Intersection | null): void {
+    const { input, nativeEvent } = pointer;
+    if (intersection) {
+      this.dispatch(
+        'pointerup',
+        this.chainFrom(intersection.object),
+        intersection,
+        intersection.point,
+        nativeEvent
+      );
+    }
+
+    const press = this.press;
+    if (!press || press.pointerId !== input.pointerId) return;
+    this.press = null;
+
+    const pressed = press.chain[0];
+    if (press.dragging && press.dragOwner) {
+      const point = this.raycaster.ray.intersectPlane(press.plane, new THREE.Vector3());
+      this.dispatch('dragend', this.chainFrom(press.dragOwner), null, point, nativeEvent);
+    } else if (intersection && pressed && this.chainFrom(intersection.object).includes(pressed)) {
+      // Click when released over the object that was pressed
+      this.dispatch('click', press.chain, intersection, intersection.point, nativeEvent);
+    }
+    this.applyCursor();
+  }
+
+  /**
+   * Turn a press into a drag once it moves far enough, then follow the pointer
+   */
+  private updateDrag(): void {
+    const press = this.press;
+    if (!press?.dragOwner) return;
+
+    const chain = this.chainFrom(press.dragOwner);
+    const point = this.raycaster.ray.intersectPlane(press.plane, new THREE.Vector3());
+
+    if (!press.dragging) {
+      const moved = Math.hypot(this.pixelX - press.startX, this.pixelY - press.startY);
+      if (moved < DRAG_THRESHOLD) return;
+      press.dragging = true;
+      this.dispatch('dragstart', chain, null, point, null);
+      this.applyCursor();
+    }
+    this.dispatch('drag', chain, null, point, null);
+  }
+
+  /**
+   * Abandon the press, ending a drag if one was running
+   */
+  private cancelPress(pointer: QueuedPointer | null): void {
+    const press = this.press;
+    if (!press || (pointer && press.pointerId !== pointer.input.pointerId)) return;
+    this.press = null;
+
+    if (press.dragging && press.dragOwner && this.registrations.has(press.dragOwner)) {
+      const nativeEvent = pointer?.nativeEvent ?? null;
+      this.dispatch('dragend', this.chainFrom(press.dragOwner), null, null, nativeEvent);
+    }
+    this.applyCursor();
+  }
+
+  /**
+   * Send pointerleave/pointerenter for objects that left or joined the hovered chain
+   * Like their DOM namesakes these do not bubble.
+   */
+  private setHovered(chain: THREE.Object3D[]): void {
+    const left = this.hovered.filter((object) => !chain.includes(object));
+    const entered = chain.filter((object) => !this.hovered.includes(object));
+    this.hovered = chain;
+
+    left.forEach((object) => this.dispatch('pointerleave', [object], null, null, null));
+    // Outermost first, as in the DOM
+    [...entered]
+      .reverse()
+      .forEach((object) =>
+        this.dispatch(
+          'pointerenter',
+          [object],
+          this.hoverIntersection,
+          this.hoverIntersection?.point ?? null,
+          null
+        )
+      );
+    this.applyCursor();
+  }
+
+  /**
+   * Deliver an event to each object in the chain until a handler stops propagation
+   */
+  private dispatch(
+    type: InteractionEventType,
+    chain: THREE.Object3D[],
+    intersection: THREE.Intersection | null,
+    point: THREE.Vector3 | null,
+    nativeEvent: PointerEvent | null
+  ): void {
+    let stopped = false;
+    for (const object of chain) {
+      const handler = this.registrations.get(object)?.handlers[type];
+      if (!handler) continue;
+
+      const event: InteractionEvent = {
+        type,
+        object,
+        target: intersection?.object ?? null,
+        point: point?.clone() ?? null,
+        intersection,
+        pointer: this.pointer.clone(),
+        nativeEvent,
+        stopPropagation: () => {
+          stopped = true;
+        },
+      };
+
+      try {
+        handler(event);
+      } catch (error) {
+        console.error(`Error in ${type} handler of "${object.name || object.uuid}":`, error);
+      }
+      if (stopped) break;
+    }
+  }
+
+  /**
+   * Show the cursor of the dragged or deepest hovered object
+   * Only writes when it changes, so other code may style the canvas meanwhile.
+   */
+  private applyCursor(): void {
+    if (!this.canvas) return;
+
+    let cursor = '';
+    if (this.press?.dragging) {
+      cursor = 'grabbing';
+    } else {
+      const hovered = this.hovered[0];
+      cursor = hovered ? (this.registrations.get(hovered)?.cursor ?? '') : '';
+    }
+
+    if (cursor !== this.cursor) {
+      this.cursor = cursor;
+      this.canvas.style.cursor = cursor;
+    }
+  }
+
+  /**
+   * Registered objects from `object` (inclusive) up through its ancestors, deepest first
+   */
+  private chainFrom(object: THREE.Object3D): THREE.Object3D[] {
+    const chain: THREE.Object3D[] = [];
+    let current: THREE.Object3D | null = object;
+    while (current) {
+      if (this.registrations.has(current)) chain.push(current);
+      current = current.parent;
+    }
+    return chain;
+  }
+
+  /**
+   * Check if an object is attached to the current scene
+   */
+  private isInScene(object: THREE.Object3D): boolean {
+    let current: THREE.Object3D | null = object;
+    while (current) {
+      if (current === this.scene) return true;
+      current = current.parent;
+    }
+    return false;
+  }
+
+  /**
+   * Check if any ancestor of an object is registered
+   */
+  private hasRegisteredAncestor(object: THREE.Object3D): boolean {
+    let current = object.parent;
+    while (current) {
+      if (this.registrations.has(current)) return true;
+      current = current.parent;
+    }
+    return false;
+  }
+
+  /**
+   * Build bounds trees for large static meshes under an object
+   * Skinned and morphed meshes deform on the GPU, so a BVH of their rest pose would be wrong.
+   */
+  private accelerate(object: THREE.Object3D, registration: Registration): void {
+    object.traverse((child) => {
+      if (!(child instanceof THREE.Mesh) || child instanceof THREE.SkinnedMesh) return;
+
+      const geometry = child.geometry as THREE.BufferGeometry;
+      if (registration.accelerated.includes(geometry)) return;
+      if (Object.keys(geometry.morphAttributes).length > 0) return;
+
+      const position = geometry.getAttribute('position');
+      const triangles = (geometry.index?.count ?? position?.count ?? 0) / 3;
+      if (triangles < BVH_MIN_TRIANGLES) return;
+
+      // Geometry built elsewhere with a BVH is used as-is and left alone
+      const users = this.bvhUsers.get(geometry);
+      if (users === undefined && geometry.boundsTree) return;
+      if (users === undefined) geometry.computeBoundsTree();
+
+      this.bvhUsers.set(geometry, (users ?? 0) + 1);
+      registration.accelerated.push(geometry);
+    });
+  }
+
+  /**
+   * Drop a registration's claim on a BVH, disposing it with the last claim
+   */
+  private releaseBVH(geometry: THREE.BufferGeometry): void {
+    const users = (this.bvhUsers.get(geometry) ?? 1) - 1;
+    if (users > 0) {
+      this.bvhUsers.set(geometry, users);
+      return;
+    }
+    this.bvhUsers.delete(geometry);
+    geometry.disposeBoundsTree();
+  }
+
+  /**
+   * End hover and any press, e.g. when the scene changes
+   */
+  private reset(): void {
+    this.cancelPress(null);
+    this.queue = [];
+    this.hoverIntersection = null;
+    this.setHovered([]);
+  }
+
+  /**
+   * Track the primary pointer position in NDC and canvas pixels
+   */
+  private trackPointer(input: PointerInput): void {
+    if (!this.canvas) return;
+    const rect = this.canvas.getBoundingClientRect();
+
+    this.pointer.set(input.x, input.y);
+    this.pixelX = ((input.x + 1) / 2) * rect.width;
+    this.pixelY = ((1 - input.y) / 2) * rect.height;
+    this.pointerInside = true;
+    this.pointerMoved = true;
+  }
+
+  /**
+   * Follow moves, queue down/up/cancel for the next update (which raycasts at their
+   * position) and handle leave, where a captured drag keeps its pointer
+   * Only the primary pointer interacts.
+   */
+  private handlePointerInput = (input: PointerInput, nativeEvent: PointerEvent | null): void => {
+    if (!input.isPrimary) return;
+
+    if (input.type === 'pointerleave') {
+      if (!this.press?.dragging) this.pointerInside = false;
+      return;
+    }
+
+    this.trackPointer(input);
+    if (input.type !== 'pointermove') this.queue.push({ input, nativeEvent });
+  };
+
+  /**
+   * Clean up and reset singleton
+   */
+  static dispose(): void {
+    if (InteractionManager.instance) {
+      const manager = InteractionManager.instance;
+      manager.detach();
+      [...manager.registrations.keys()].forEach((object) => manager.unregister(object));
+      manager.scene = null;
+      InteractionManager.instance = null;
+    }
+  }
+}
+
+/**
+ * Check if an object and all its ancestors are visible
+ */
+function isVisible(object: THREE.Object3D): boolean {
+  let current: THREE.Object3D | null = object;
+  while (current) {
+    if (!current.visible) return false;
+    current = current.parent;
+  }
+  return true;
+}
@@ -0,0 +1,218 @@
+/**
+ * ParallaxRig.ts
+ * Spring-damped, bounded parallax offset driven by the pointer or device tilt
+ * Constitution Principle II: Smooth Performance & Motion Quality (subtle, always returns home)
+ */
+
+import * as THREE from 'three';
+
+export interface ParallaxOptions {
+  maxOffset?: number; // world units the camera may move from its base pose (default: 0.3)
+  stiffness?: number; // spring pull towards the input, per second² (default: 40)
+  damping?: number; // velocity loss per second; ~2√stiffness is critically damped (default: 12)
+  tiltRange?: number; // degrees of device tilt that reach maxOffset (default: 20)
+}
+
+export type OrientationPermission = 'granted' | 'denied' | 'unsupported';
+
+/** iOS 13+ gates deviceorientation behind a permission prompt */
+type OrientationEventWithPermission = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<'granted' | 'denied'>;
+};
+
+// Longest step integrated at once; larger frame gaps are split so the spring stays stable
+const MAX_STEP = 1 / 60;
+
+export class ParallaxRig {
+  private options: Required<ParallaxOptions>;
+  private enabled: boolean = true;
+
+  // Pointer input in -1..1 per axis, polled from a source or set directly
+  private pointerSource: (() => { x: number; y: number }) | null = null;
+  private pointer = new THREE.Vector2();
+
+  // Device tilt relative to the pose the phone was held in when tilt was enabled
+  private orientationListening: boolean = false;
+  private tilt: THREE.Vector2 | null = null;
+  private tiltNeutral: { beta: number; gamma: number } | null = null;
+
+  private offset = new THREE.Vector2();
+  private velocity = new THREE.Vector2();
+  private goal = new THREE.Vector2();
+
+  constructor(options: ParallaxOptions = {}) {
+    this.options = {
+      maxOffset: options.maxOffset ?? 0.3,
+      stiffness: options.stiffness ?? 40,
+      damping: options.damping ?? 12,
+      tiltRange: options.tiltRange ?? 20,
+    };
+  }
+
+  /**
+   * Change spring and range settings
+   */
+  setOptions(options: ParallaxOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Turn parallax on or off; when off the offset springs back to zero
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  /**
+   * Check if parallax is on
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Set the pointer source polled every frame (e.g. InputHandler.getPointerState)
+   */
+  setPointerSource(source: (() => { x: number; y: number }) | null): void {
+    this.pointerSource = source;
+  }
+
+  /**
+   * Set pointer input directly (-1 to 1 per axis); ignored while a source is set
+   */
+  setPointer(x: number, y: number): void {
+    this.pointer.set(x, y);
+  }
+
+  /**
+   * Check if device tilt needs a permission prompt (iOS)
+   * The prompt may only be shown from a user gesture such as a tap.
+   */
+  static needsOrientationPermission(): boolean {
+    return (
+      typeof DeviceOrientationEvent !== 'undefined' &&
+      typeof (DeviceOrientationEvent as OrientationEventWithPermission).requestPermission ===
+        'function'
+    );
+  }
+
+  /**
+   * Start using device tilt instead of the pointer
+   * Call from a user gesture where needsOrientationPermission() is true.
+   */
+  async enableDeviceOrientation(): Promise<OrientationPermission> {
+    if (typeof DeviceOrientationEvent === 'undefined') return 'unsupported';
+
+    const request = (DeviceOrientationEvent as OrientationEventWithPermission).requestPermission;
+    if (request) {
+      try {
+        if ((await request()) !== 'granted') return 'denied';
+      } catch (error) {
+        // Thrown when not called from a user gesture
+        console.warn('Device orientation permission request failed:', error);
+        return 'denied';
+      }
+    }
+
+    if (!this.orientationListening) {
+      window.addEventListener('deviceorientation', this.handleOrientation);
+      this.orientationListening = true;
+    }
+    this.recenter();
+    return 'granted';
+  }
+
+  /**
+   * Stop using device tilt; the pointer takes over again
+   */
+  disableDeviceOrientation(): void {
+    window.removeEventListener('deviceorientation', this.handleOrientation);
+    this.orientationListening = false;
+    this.tilt = null;
+    this.tiltNeutral = null;
+  }
+
+  /**
+   * Treat the way the device is held right now as neutral
+   */
+  recenter(): void {
+    this.tiltNeutral = null;
+    this.tilt = null;
+  }
+
+  /**
+   * Advance the spring and get the offset in world units (x: camera right, y: camera up)
+   * @param active False pulls the offset back to zero (e.g. while inspecting)
+   */
+  update(delta: number, active: boolean = true): THREE.Vector2 {
+    if (this.pointerSource) {
+      const { x, y } = this.pointerSource();
+      this.pointer.set(x, y);
+    }
+
+    const input = this.tilt ?? this.pointer;
+    const { maxOffset, stiffness, damping } = this.options;
+    if (active && this.enabled) {
+      this.goal.set(
+        THREE.MathUtils.clamp(input.x, -1, 1) * maxOffset,
+        THREE.MathUtils.clamp(input.y, -1, 1) * maxOffset
+      );
+    } else {
+      this.goal.set(0, 0);
+    }
+
+    // Semi-implicit Euler in small steps
+    let remaining = Math.min(delta, 0.25);
+    while (remaining > 0) {
+      const step = Math.min(remaining, MAX_STEP);
+      remaining -= step;
+
+      this.velocity.x +=
+        (stiffness * (this.goal.x - this.offset.x) - damping * this.velocity.x) * step;
+      this.velocity.y +=
+        (stiffness * (this.goal.y - this.offset.y) - damping * this.velocity.y) * step;
+      this.offset.addScaledVector(this.velocity, step);
+    }
+
+    // Bounded: overshoot never carries the camera past maxOffset
+    this.offset.clampScalar(-maxOffset, maxOffset);
+    return this.offset.clone();
+  }
+
+  /**
+   * Drop the current offset and velocity (the camera keeps wherever it is)
+   */
+  reset(): void {
+    this.offset.set(0, 0);
+    this.velocity.set(0, 0);
+  }
+
+  /**
+   * Handle deviceorientation: tilt relative to neutral, rotated to the screen orientation
+   */
+  private handleOrientation = (event: DeviceOrientationEvent): void => {
+    if (event.beta === null || event.gamma === null) return;
+
+    if (!this.tiltNeutral) {
+      this.tiltNeutral = { beta: event.beta, gamma: event.gamma };
+    }
+
+    const { tiltRange } = this.options;
+    const gamma = (event.gamma - this.tiltNeutral.gamma) / tiltRange; // left/right
+    const beta = (event.beta - this.tiltNeutral.beta) / tiltRange; // towards/away
+
+    // Device axes turn with the screen in landscape
+    const angle = THREE.MathUtils.degToRad(window.screen.orientation?.angle ?? 0);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.tilt = new THREE.Vector2(gamma * cos + beta * sin, beta * cos - gamma * sin);
+  };
+
+  /**
+   * Cleanup
+   */
+  dispose(): void {
+    this.disableDeviceOrientation();
+    this.pointerSource = null;
+  }
+}
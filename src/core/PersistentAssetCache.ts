@@ -0,0 +1,191 @@
+/**
+ * PersistentAssetCache.ts
+ * Versioned offline copy of downloaded asset files, used underneath AssetLoader
+ * Constitution Principle II: Performance (returning visitors skip re-downloads)
+ * Constitution Principle III: Stability (storage failures never fail a load)
+ */
+
+import { FileDownloader } from '../utils/FileDownloader';
+import type { AssetManifest } from '../types/AssetManifest';
+import type { PersistentAssetStore, PersistentEntryInfo } from '../types/PersistentAssetStore';
+
+export interface PersistentFetchOptions {
+  version?: string; // pins the entry to this version instead of the content version
+  signal?: AbortSignal;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+export interface PersistentFetchResult {
+  blob: Blob;
+  fromStore: boolean;
+}
+
+export interface PersistentCacheUsage {
+  version: string;
+  entries: number;
+  bytes: number;
+}
+
+export class PersistentAssetCache {
+  // Current asset manifest; until one is set, pinned entries are kept
+  private manifest: AssetManifest | null = null;
+
+  constructor(
+    private store: PersistentAssetStore,
+    private version: string
+  ) {}
+
+  /**
+   * Get the content version new entries are stored under
+   */
+  getVersion(): string {
+    return this.version;
+  }
+
+  /**
+   * Switch to a new content version and purge entries from older versions
+   * Resolves with the number of purged entries
+   */
+  setVersion(version: string): Promise<number> {
+    this.version = version;
+    return this.purgeStale();
+  }
+
+  /**
+   * Set the current asset manifest and purge pinned entries it no longer lists or pins to
+   * their stored version
+   * Resolves with the number of purged entries
+   */
+  setManifest(manifest: AssetManifest | null): Promise<number> {
+    this.manifest = manifest;
+    return this.purgeStale();
+  }
+
+  /**
+   * Get the bytes of an asset, from storage when the stored version matches,
+   * otherwise from the network (storing the result)
+   * Resolves null when the network request fails before a response (offline, CORS)
+   * and nothing is stored, so the caller can fall back to a direct load.
+   */
+  async fetch(
+    url: string,
+    options: PersistentFetchOptions = {}
+  ): Promise<PersistentFetchResult | null> {
+    const { signal, onProgress } = options;
+    const version = options.version ?? this.version;
+    const pinned = options.version !== undefined;
+
+    const stored = await this.safely(() => this.store.get(url), null);
+    if (stored && stored.info.version === version) {
+      onProgress?.(stored.blob.size, stored.blob.size);
+      return { blob: stored.blob, fromStore: true };
+    }
+
+    let blob: Blob;
+    try {
+      blob = await FileDownloader.download(url, signal, onProgress);
+    } catch (error) {
+      if (!(error instanceof TypeError)) throw error;
+
+      // Offline: an outdated copy beats a broken scene
+      if (stored) {
+        console.warn(`Serving ${url} from offline cache version ${stored.info.version}`);
+        return { blob: stored.blob, fromStore: true };
+      }
+      return null;
+    }
+
+    // Replaces the stale entry, if any
+    await this.safely(
+      () =>
+        this.store.put({
+          info: { url, version, pinned, bytes: blob.size, storedAt: Date.now() },
+          blob,
+        }),
+      undefined
+    );
+
+    return { blob, fromStore: false };
+  }
+
+  /**
+   * Delete entries stored under an older content version
+   * Entries pinned to a manifest version are deleted once the manifest (see setManifest)
+   * drops their URL or pins it to another version.
+   */
+  async purgeStale(): Promise<number> {
+    const infos = await this.safely(() => this.store.list(), []);
+    const manifestVersions = this.getManifestVersions();
+    const stale = infos.filter((info) =>
+      info.pinned
+        ? manifestVersions !== null && manifestVersions.get(info.url) !== info.version
+        : info.version !== this.version
+    );
+
+    for (const info of stale) {
+      await this.safely(() => this.store.delete(info.url), false);
+    }
+
+    return stale.length;
+  }
+
+  /**
+   * List stored entries
+   */
+  list(): Promise<PersistentEntryInfo[]> {
+    return this.safely(() => this.store.list(), []);
+  }
+
+  /**
+   * Get entry count and stored bytes
+   */
+  async getUsage(): Promise<PersistentCacheUsage> {
+    const infos = await this.list();
+    return {
+      version: this.version,
+      entries: infos.length,
+      bytes: infos.reduce((sum, info) => sum + info.bytes, 0),
+    };
+  }
+
+  /**
+   * Delete one stored asset
+   */
+  delete(url: string): Promise<boolean> {
+    return this.safely(() => this.store.delete(url), false);
+  }
+
+  /**
+   * Delete every stored asset
+   */
+  clear(): Promise<void> {
+    return this.safely(() => this.store.clear(), undefined);
+  }
+
+  /**
+   * Map each manifest URL to the version it is stored under, or null without a manifest
+   */
+  private getManifestVersions(): Map<string, string> | null {
+    if (!this.manifest) return null;
+
+    const versions = new Map<string, string>();
+    Object.values(this.manifest).forEach((group) => {
+      [...(group.models ?? []), ...(group.textures ?? []), ...(group.extras ?? [])].forEach(
+        (asset) => versions.set(asset.url, asset.version ?? this.version)
+      );
+    });
+    return versions;
+  }
+
+  /**
+   * Run a storage operation, treating failures (quota, private browsing) as a miss
+   */
+  private async safely<T>(operation: () => Promise<T>, fallback: T): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      console.warn('Persistent asset cache unavailable:', error);
+      return fallback;
+    }
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * PoseHistory.ts
+ * Back/forward stack of camera poses, like browser history
+ * Constitution Principle V: Accessibility & Input Gracefulness (exploration is always undoable)
+ */
+
+import type { SceneCameraPose } from './SceneManager';
+
+// Poses closer than this (world units) count as the same viewpoint
+const SAME_POSE_DISTANCE = 1e-3;
+
+export class PoseHistory {
+  private entries: SceneCameraPose[] = [];
+  private index: number = -1;
+  private limit: number;
+
+  constructor(limit: number = 50) {
+    this.limit = Math.max(1, limit);
+  }
+
+  /**
+   * Record a pose after the current one, dropping any forward entries
+   * Returns false if it matches the current entry.
+   */
+  record(pose: SceneCameraPose): boolean {
+    const current = this.entries[this.index];
+    if (current && PoseHistory.isSame(current, pose)) return false;
+
+    this.entries.splice(this.index + 1);
+    this.entries.push({ position: pose.position.clone(), target: pose.target.clone() });
+    if (this.entries.length > this.limit) this.entries.shift();
+    this.index = this.entries.length - 1;
+    return true;
+  }
+
+  /**
+   * Step back; returns the pose to go to, or null at the start
+   */
+  back(): SceneCameraPose | null {
+    if (!this.canGoBack()) return null;
+    this.index--;
+    return this.getCurrent();
+  }
+
+  /**
+   * Step forward; returns the pose to go to, or null at the end
+   */
+  forward(): SceneCameraPose | null {
+    if (!this.canGoForward()) return null;
+    this.index++;
+    return this.getCurrent();
+  }
+
+  /**
+   * Get the current entry, or null if nothing has been recorded
+   */
+  getCurrent(): SceneCameraPose | null {
+    const current = this.entries[this.index];
+    return current ? this.copy(current) : null;
+  }
+
+  /**
+   * Check if there is an entry before the current one
+   */
+  canGoBack(): boolean {
+    return this.index > 0;
+  }
+
+  /**
+   * Check if there is an entry after the current one
+   */
+  canGoForward(): boolean {
+    return this.index < this.entries.length - 1;
+  }
+
+  /**
+   * Get the number of recorded poses
+   */
+  getLength(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Forget every entry
+   */
+  clear(): void {
+    this.entries = [];
+    this.index = -1;
+  }
+
+  /**
+   * Check if two poses are the same viewpoint
+   */
+  static isSame(a: SceneCameraPose, b: SceneCameraPose): boolean {
+    return (
+      a.position.distanceTo(b.position) < SAME_POSE_DISTANCE &&
+      a.target.distanceTo(b.target) < SAME_POSE_DISTANCE
+    );
+  }
+
+  /**
+   * Entries are never handed out directly, so callers cannot mutate history
+   */
+  private copy(pose: SceneCameraPose): SceneCameraPose {
+    return { position: pose.position.clone(), target: pose.target.clone() };
+  }
+}
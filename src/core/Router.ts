@@ -0,0 +1,243 @@
+/**
+ * Router.ts
+ * Maps URL hash or History API paths to scenes and projects (deep links)
+ * Constitution Principle I: UX Consistency (back/forward animate like in-app navigation)
+ * Constitution Principle V: Accessibility (instant jumps under reduced motion)
+ */
+
+import type { SceneManager } from './SceneManager';
+import { ReducedMotion } from '../utils/ReducedMotion';
+
+export type RouterMode = 'hash' | 'history';
+
+export interface Route {
+  sceneId: string;
+  projectId: string | null;
+}
+
+export interface RouterOptions {
+  mode?: RouterMode; // default: 'hash' (works on static hosting without rewrites)
+  defaultSceneId?: string; // fallback for empty and unknown routes (default: 'landing')
+  basePath?: string; // history mode only, e.g. '/portfolio'
+  projects?: Record<string, string[]>; // valid project ids per scene id
+}
+
+export interface NavigateOptions {
+  replace?: boolean; // replace the current history entry instead of pushing one
+  moveCamera?: boolean; // false when the camera is already there (e.g. rail scrolling)
+}
+
+export class Router {
+  private sceneManager: SceneManager;
+  private mode: RouterMode;
+  private defaultSceneId: string;
+  private basePath: string;
+  private projects: Map<string, Set<string>> = new Map();
+
+  private currentRoute: Route | null = null;
+  private listeners: Set<(route: Route) => void> = new Set();
+  private isStarted: boolean = false;
+
+  constructor(sceneManager: SceneManager, options: RouterOptions = {}) {
+    this.sceneManager = sceneManager;
+    this.mode = options.mode ?? 'hash';
+    this.defaultSceneId = options.defaultSceneId ?? 'landing';
+    this.basePath = (options.basePath ?? '').replace(/\/+$/, '');
+
+    Object.entries(options.projects ?? {}).forEach(([sceneId, projectIds]) => {
+      this.projects.set(sceneId, new Set(projectIds));
+    });
+  }
+
+  /**
+   * Resolve the initial URL and start listening to back/forward navigation
+   * The initial route is applied instantly so deep links open already framed
+   */
+  async start(): Promise<void> {
+    if (this.isStarted) return;
+    this.isStarted = true;
+
+    window.addEventListener('popstate', this.handleLocationChange);
+    if (this.mode === 'hash') {
+      window.addEventListener('hashchange', this.handleLocationChange);
+    }
+
+    const route = this.resolve(this.readLocation());
+    window.history.replaceState(route, '', this.buildPath(route));
+    await this.apply(route, true);
+  }
+
+  /**
+   * Navigate to a scene (and optionally a project), pushing a history entry
+   */
+  async navigate(
+    sceneId: string,
+    projectId: string | null = null,
+    options: NavigateOptions = {}
+  ): Promise<void> {
+    const { replace = false, moveCamera = true } = options;
+    const route = this.resolve(this.toPath({ sceneId, projectId }));
+
+    if (this.isSameRoute(route, this.currentRoute)) return;
+
+    if (replace) {
+      window.history.replaceState(route, '', this.buildPath(route));
+    } else {
+      window.history.pushState(route, '', this.buildPath(route));
+    }
+    await this.apply(route, ReducedMotion.isReduced(), moveCamera);
+  }
+
+  /**
+   * Parse a path such as '/projects/project-2' into a route
+   * Returns null if the path does not match a registered scene or project
+   */
+  parse(path: string): Route | null {
+    let segments: string[];
+    try {
+      segments = path
+        .split('/')
+        .filter((segment) => segment.length > 0)
+        .map((segment) => decodeURIComponent(segment));
+    } catch {
+      return null; // malformed percent-encoding
+    }
+
+    if (segments.length === 0) {
+      return { sceneId: this.defaultSceneId, projectId: null };
+    }
+
+    const [sceneId, projectId, ...rest] = segments;
+    if (!sceneId || rest.length > 0 || !this.sceneManager.hasScene(sceneId)) {
+      return null;
+    }
+
+    if (projectId === undefined) {
+      return { sceneId, projectId: null };
+    }
+
+    if (!this.projects.get(sceneId)?.has(projectId)) {
+      return null;
+    }
+
+    return { sceneId, projectId };
+  }
+
+  /**
+   * Build the URL (hash or pathname) for a route
+   */
+  buildPath(route: Route): string {
+    const path = this.toPath(route);
+    return this.mode === 'hash' ? `#${path}` : `${this.basePath}${path}`;
+  }
+
+  /**
+   * Get the route currently applied
+   */
+  getCurrentRoute(): Route | null {
+    return this.currentRoute ? { ...this.currentRoute } : null;
+  }
+
+  /**
+   * Subscribe to route changes (navigate, back/forward, initial route)
+   * @returns Unsubscribe function
+   */
+  onRouteChange(callback: (route: Route) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Handle browser back/forward and manual hash edits
+   */
+  private handleLocationChange = (): void => {
+    const route = this.resolve(this.readLocation());
+
+    // Keep the address bar in sync with what is actually shown (e.g. after a fallback)
+    window.history.replaceState(route, '', this.buildPath(route));
+
+    // popstate and hashchange can both fire for a single hash navigation
+    if (this.isSameRoute(route, this.currentRoute)) return;
+
+    this.apply(route, ReducedMotion.isReduced()).catch((error) => {
+      console.error(`Failed to apply route "${this.buildPath(route)}":`, error);
+    });
+  };
+
+  /**
+   * Parse a path, falling back to the default scene with a warning
+   */
+  private resolve(path: string): Route {
+    const route = this.parse(path);
+    if (route) return route;
+
+    console.warn(
+      `Unknown route "${path}", falling back to "${this.defaultSceneId}". ` +
+        `Known scenes: ${this.sceneManager.getSceneIds().join(', ') || '(none)'}`
+    );
+
+    return { sceneId: this.defaultSceneId, projectId: null };
+  }
+
+  /**
+   * Read the routable part of the current location
+   */
+  private readLocation(): string {
+    if (this.mode === 'hash') {
+      return window.location.hash.replace(/^#/, '');
+    }
+
+    const pathname = window.location.pathname;
+    if (this.basePath && pathname.startsWith(this.basePath)) {
+      return pathname.slice(this.basePath.length);
+    }
+    return pathname;
+  }
+
+  /**
+   * Transition the scene manager to a route and notify listeners
+   * Project routes frame the project in its scene (see Scene.getFocusObject).
+   */
+  private async apply(route: Route, instant: boolean, moveCamera: boolean = true): Promise<void> {
+    this.currentRoute = route;
+    this.listeners.forEach((callback) => callback({ ...route }));
+    await this.sceneManager.transitionTo(route.sceneId, {
+      instant,
+      moveCamera,
+      focusId: route.projectId,
+    });
+  }
+
+  /**
+   * Convert a route to its path form, e.g. '/projects/project-2'
+   */
+  private toPath(route: Route): string {
+    return (
+      '/' +
+      [route.sceneId, route.projectId]
+        .filter((segment): segment is string => segment !== null)
+        .map((segment) => encodeURIComponent(segment))
+        .join('/')
+    );
+  }
+
+  /**
+   * Compare two routes
+   */
+  private isSameRoute(a: Route | null, b: Route | null): boolean {
+    return !!a && !!b && a.sceneId === b.sceneId && a.projectId === b.projectId;
+  }
+
+  /**
+   * Cleanup listeners
+   */
+  dispose(): void {
+    window.removeEventListener('popstate', this.handleLocationChange);
+    window.removeEventListener('hashchange', this.handleLocationChange);
+    this.listeners.clear();
+    this.isStarted = false;
+    this.currentRoute = null;
+  }
+}
@@ -0,0 +1,469 @@
+/**
+ * SceneManager.ts
+ * Orchestrates scene lifecycle, the render loop, and section transitions
+ * Constitution Principle III: Stability (resize, visibility handling)
+ * Constitution Principle IV: Composable Scene Architecture with lifecycle hooks
+ */
+
+import type * as THREE from 'three';
+import gsap from 'gsap';
+import type { Scene } from '../types/Scene';
+import type { CameraController, CameraTransitionOptions } from './CameraController';
+import type { CameraRail } from './CameraRail';
+import { AssetLoader, isAbortError } from './AssetLoader';
+import { InteractionManager } from './InteractionManager';
+
+export interface SceneCameraPose {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+}
+
+export interface SceneTransitionOptions extends CameraTransitionOptions {
+  instant?: boolean; // jump straight to the pose with setPosition (deep links, reduced motion)
+  moveCamera?: boolean; // false swaps scenes only, e.g. when rail scrolling already moved the camera
+  focusId?: string | null; // frame this item of the scene (Scene.getFocusObject), e.g. a project
+}
+
+export interface SceneState {
+  currentSceneId: string | null;
+  previousSceneId: string | null;
+  isTransitioning: boolean;
+}
+
+interface SceneEntry {
+  scene: Scene;
+  pose: SceneCameraPose | null;
+  initPromise: Promise<void> | null;
+  initController: AbortController | null; // set while init() is pending
+  isMounted: boolean;
+}
+
+export class SceneManager {
+  private renderer: THREE.WebGLRenderer;
+  private camera: THREE.PerspectiveCamera;
+  private cameraController: CameraController;
+
+  private entries: Map<string, SceneEntry> = new Map();
+  private state: SceneState = {
+    currentSceneId: null,
+    previousSceneId: null,
+    isTransitioning: false,
+  };
+
+  // Incremented on every transition request so superseded transitions can bail out
+  private transitionToken: number = 0;
+  // Item framed by the last transition (see SceneTransitionOptions.focusId)
+  private focusId: string | null = null;
+  // Rail transitions travel along, even after framing an item took the camera off it
+  private rail: CameraRail | null = null;
+
+  private animationFrameId: number | null = null;
+  private isRunning: boolean = false;
+  private lastFrameTime: number = 0;
+  private elapsedTime: number = 0;
+  private maxDelta: number = 0.1; // seconds, avoids huge jumps after a stall
+  private tweenTime: number = 0; // GSAP root time while the loop drives it (see start)
+
+  private onFrameCallback: ((delta: number, time: number) => void) | null = null;
+  private frameClock: ((wallDelta: number) => number) | null = null;
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    camera: THREE.PerspectiveCamera,
+    cameraController: CameraController
+  ) {
+    this.renderer = renderer;
+    this.camera = camera;
+    this.cameraController = cameraController;
+
+    window.addEventListener('resize', this.handleResize);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+
+  /**
+   * Register a scene implementation by its id
+   * The scene is not initialized until it is first transitioned to
+   */
+  register(scene: Scene, pose: SceneCameraPose | null = null): void {
+    if (this.entries.has(scene.id)) {
+      console.warn(`Scene "${scene.id}" is already registered, replacing it.`);
+      this.unregister(scene.id);
+    }
+
+    this.entries.set(scene.id, {
+      scene,
+      pose,
+      initPromise: null,
+      initController: null,
+      isMounted: false,
+    });
+  }
+
+  /**
+   * Remove a scene, disposing it if it was initialized
+   */
+  unregister(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    if (entry.initPromise) {
+      this.disposeEntry(entry);
+    }
+    this.entries.delete(id);
+
+    if (this.state.currentSceneId === id) {
+      this.state.currentSceneId = null;
+    }
+  }
+
+  /**
+   * Check whether a scene id is registered
+   */
+  hasScene(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  /**
+   * Get registered scene ids in registration order
+   */
+  getSceneIds(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /**
+   * Get the camera pose registered for a scene
+   */
+  getPose(id: string): SceneCameraPose | null {
+    return this.entries.get(id)?.pose ?? null;
+  }
+
+  /**
+   * Get the currently displayed scene
+   */
+  getCurrentScene(): Scene | null {
+    if (!this.state.currentSceneId) return null;
+    return this.entries.get(this.state.currentSceneId)?.scene ?? null;
+  }
+
+  /**
+   * Set the rail transitions travel along (see CameraController.enterRail)
+   * Scenes with a stop on it are reached by gliding to the stop; when the camera has left
+   * the rail (e.g. to frame a project), it moves back onto the rail at that stop.
+   */
+  setRail(rail: CameraRail | null): void {
+    this.rail = rail;
+  }
+
+  /**
+   * Get a snapshot of the transition state
+   */
+  getState(): Readonly<SceneState> {
+    return { ...this.state };
+  }
+
+  /**
+   * Transition to a registered scene
+   * Initializes the scene if needed, mounts it, moves the camera to its pose and
+   * disposes the outgoing scene(s) once the camera arrives. With a `focusId` the camera
+   * frames that item of the scene instead. A transition requested while another is in
+   * flight supersedes it; the earlier promise resolves early.
+   */
+  async transitionTo(id: string, options: SceneTransitionOptions = {}): Promise<void> {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      console.warn(`Cannot transition to unknown scene "${id}".`);
+      return;
+    }
+
+    const { instant = false, moveCamera = true, focusId = null, ...cameraOptions } = options;
+    if (
+      this.state.currentSceneId === id &&
+      this.focusId === focusId &&
+      !this.state.isTransitioning
+    ) {
+      return;
+    }
+
+    const token = ++this.transitionToken;
+    this.state.isTransitioning = true;
+
+    // A frozen first-person camera would watch the scenes swap; give the camera back first
+    this.cameraController.exitFirstPerson();
+
+    // Stop loading scenes the user navigated away from before they were shown
+    this.entries.forEach((other) => {
+      if (other !== entry) other.initController?.abort();
+    });
+
+    try {
+      await this.ensureInitialized(entry);
+    } catch (error) {
+      if (token !== this.transitionToken && isAbortError(error)) return;
+
+      console.error(`Failed to initialize scene "${id}":`, error);
+      if (token === this.transitionToken) {
+        this.state.isTransitioning = false;
+      }
+      throw error;
+    }
+
+    // A newer transition started while this scene was loading
+    if (token !== this.transitionToken) return;
+
+    if (this.state.currentSceneId !== id) {
+      this.state.previousSceneId = this.state.currentSceneId;
+      this.state.currentSceneId = id;
+    }
+    this.focusId = focusId;
+
+    if (!entry.isMounted) {
+      entry.scene.mount();
+      entry.isMounted = true;
+    }
+
+    // The incoming scene's colliders shape the camera path below
+    this.cameraController.setConstraints(entry.scene.getCameraConstraints?.() ?? null);
+    InteractionManager.getInstance().setScene(entry.scene.scene);
+
+    const focus = focusId ? (entry.scene.getFocusObject?.(focusId) ?? null) : null;
+    if (focusId && !focus) {
+      console.warn(`Scene "${id}" has no object for "${focusId}", showing the whole scene.`);
+    }
+
+    const rail = this.rail ?? this.cameraController.getRail();
+    const stop = rail?.getStop(id);
+    if (moveCamera && focus) {
+      await this.cameraController.frameObject(focus, { ...cameraOptions, instant });
+    } else if (moveCamera && rail && stop && this.cameraController.getRail() === rail) {
+      // On a camera rail, travel along it to the scene's stop
+      await this.cameraController.moveRailToStop(id, { instant });
+    } else if (moveCamera && rail && stop) {
+      // Back onto the rail the camera left, e.g. to frame a project
+      if (instant) {
+        const pose = rail.getPose(stop.progress);
+        this.cameraController.setPosition(pose.position, pose.target);
+      }
+      await this.cameraController.enterRail(rail, {}, stop.progress);
+    } else if (moveCamera && entry.pose) {
+      if (instant) {
+        this.cameraController.setPosition(entry.pose.position, entry.pose.target);
+      } else {
+        await this.cameraController.transitionTo(
+          entry.pose.position,
+          entry.pose.target,
+          cameraOptions
+        );
+      }
+    }
+
+    // Superseded mid-flight: the newer transition owns cleanup
+    if (token !== this.transitionToken) return;
+
+    // Dispose every scene left mounted by this and any interrupted transitions
+    this.entries.forEach((other) => {
+      if (other !== entry && other.isMounted) {
+        this.disposeEntry(other);
+      }
+    });
+
+    this.state.isTransitioning = false;
+  }
+
+  /**
+   * Replace wall-clock frame deltas, e.g. with InputReplay.nextFrame; null restores them
+   * Elapsed time restarts from zero, so replays see the same `time` values on every run.
+   */
+  setFrameClock(clock: ((wallDelta: number) => number) | null): void {
+    this.frameClock = clock;
+    if (clock) this.elapsedTime = 0;
+  }
+
+  /**
+   * Set callback run at the start of every frame, before the camera and scenes update
+   * (e.g. to sample input actions they read)
+   */
+  setOnFrame(callback: (delta: number, time: number) => void): void {
+    this.onFrameCallback = callback;
+  }
+
+  /**
+   * Start the render loop
+   * GSAP tweens (camera moves, shots) then advance by frame deltas instead of GSAP's own
+   * wall-clock ticker, so a frame clock (e.g. a replay) drives them too.
+   */
+  start(): void {
+    if (this.isRunning) return;
+
+    this.tweenTime = gsap.ticker.time;
+    gsap.ticker.remove(gsap.updateRoot);
+    this.isRunning = true;
+    this.lastFrameTime = performance.now();
+    this.animationFrameId = requestAnimationFrame(this.animate);
+  }
+
+  /**
+   * Stop the render loop, handing GSAP back to its own ticker
+   */
+  stop(): void {
+    if (this.isRunning) gsap.ticker.add(gsap.updateRoot);
+    this.isRunning = false;
+
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+  }
+
+  /**
+   * Check if the render loop is running
+   */
+  isLoopRunning(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Render loop: update mounted scenes and render the current one
+   */
+  private animate = (now: number): void => {
+    if (!this.isRunning) return;
+
+    this.animationFrameId = requestAnimationFrame(this.animate);
+
+    const wallDelta = Math.min(Math.max((now - this.lastFrameTime) / 1000, 0), this.maxDelta);
+    this.lastFrameTime = now;
+    const delta = this.frameClock ? this.frameClock(wallDelta) : wallDelta;
+    this.elapsedTime += delta;
+
+    this.onFrameCallback?.(delta, this.elapsedTime);
+    this.tweenTime += delta;
+    gsap.updateRoot(this.tweenTime);
+    this.cameraController.update(delta);
+    // Picks against this frame's camera pose, before scenes react to the events
+    InteractionManager.getInstance().update();
+
+    this.entries.forEach((entry) => {
+      if (entry.isMounted) {
+        entry.scene.update(delta, this.elapsedTime);
+      }
+    });
+
+    const current = this.getCurrentScene();
+    if (current) {
+      this.renderer.render(current.scene, this.camera);
+    }
+  };
+
+  /**
+   * Initialize a scene once, sharing the promise between concurrent callers
+   */
+  private ensureInitialized(entry: SceneEntry): Promise<void> {
+    if (!entry.initPromise) {
+      const controller = new AbortController();
+      entry.initController = controller;
+
+      const initPromise = entry.scene.init(controller.signal).then(() => {
+        // Scene may have been sized before it existed
+        entry.scene.onResize?.(window.innerWidth, window.innerHeight);
+      });
+      entry.initPromise = initPromise;
+
+      initPromise.then(
+        () => {
+          if (entry.initController === controller) entry.initController = null;
+        },
+        () => {
+          // Allow a retry on the next transition if init fails or is cancelled
+          if (entry.initPromise === initPromise) {
+            entry.initPromise = null;
+            entry.initController = null;
+          }
+          AssetLoader.getInstance().releaseAll(entry.scene.id);
+        }
+      );
+    }
+    return entry.initPromise;
+  }
+
+  /**
+   * Dispose a scene; it will be re-initialized on its next visit
+   * Assets the scene acquired under its id are released afterwards
+   */
+  private disposeEntry(entry: SceneEntry): void {
+    try {
+      entry.scene.dispose();
+    } catch (error) {
+      console.error(`Error disposing scene "${entry.scene.id}":`, error);
+    }
+    AssetLoader.getInstance().releaseAll(entry.scene.id);
+    entry.isMounted = false;
+    entry.initPromise = null;
+    entry.initController?.abort();
+    entry.initController = null;
+  }
+
+  /**
+   * Handle window resize
+   */
+  private handleResize = (): void => {
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+
+    this.renderer.setSize(width, height);
+    this.cameraController.updateAspect(width, height);
+
+    this.entries.forEach((entry) => {
+      if (entry.initPromise) {
+        entry.scene.onResize?.(width, height);
+      }
+    });
+  };
+
+  /**
+   * Handle tab visibility change: pause the loop while hidden
+   */
+  private handleVisibilityChange = (): void => {
+    const visible = document.visibilityState === 'visible';
+
+    if (visible) {
+      this.lastFrameTime = performance.now();
+      if (this.isRunning && this.animationFrameId === null) {
+        this.animationFrameId = requestAnimationFrame(this.animate);
+      }
+    } else if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+
+    this.entries.forEach((entry) => {
+      if (entry.isMounted) {
+        entry.scene.onVisibilityChange?.(visible);
+      }
+    });
+  };
+
+  /**
+   * Cleanup: stop the loop, remove listeners and dispose all scenes
+   */
+  dispose(): void {
+    this.stop();
+    this.transitionToken++;
+    this.cameraController.cancelTransition();
+    InteractionManager.getInstance().setScene(null);
+
+    window.removeEventListener('resize', this.handleResize);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+
+    this.entries.forEach((entry) => {
+      if (entry.initPromise) {
+        this.disposeEntry(entry);
+      }
+    });
+    this.entries.clear();
+
+    this.state = {
+      currentSceneId: null,
+      previousSceneId: null,
+      isTransitioning: false,
+    };
+  }
+}
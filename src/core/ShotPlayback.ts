@@ -0,0 +1,144 @@
+/**
+ * ShotPlayback.ts
+ * Controls for a shot sequence playing through CameraController.playSequence
+ * Constitution Principle V: Accessibility & Input Gracefulness (viewers can always take over)
+ */
+
+export type ShotPlaybackResult = 'completed' | 'cancelled';
+
+/**
+ * Hooks from the CameraController driving the timeline
+ */
+export interface ShotPlaybackHooks {
+  render: () => void; // apply the timeline's values to the camera (needed after seeking)
+  end: () => void; // release the camera once playback is over
+  inputTarget: EventTarget | null; // user input here cancels playback (null: never)
+}
+
+// Any deliberate input means the viewer wants control back
+const CANCEL_EVENTS = ['pointerdown', 'wheel', 'keydown'] as const;
+
+export class ShotPlayback {
+  /** Resolves once playback completes (or is skipped to the end) or is cancelled */
+  readonly finished: Promise<ShotPlaybackResult>;
+
+  private timeline: gsap.core.Timeline;
+  private hooks: ShotPlaybackHooks;
+  private settle: ((result: ShotPlaybackResult) => void) | null = null;
+
+  constructor(timeline: gsap.core.Timeline, hooks: ShotPlaybackHooks) {
+    this.timeline = timeline;
+    this.hooks = hooks;
+    this.finished = new Promise((resolve) => {
+      this.settle = resolve;
+    });
+
+    this.timeline.eventCallback('onComplete', () => this.finish('completed'));
+    CANCEL_EVENTS.forEach((type) => {
+      hooks.inputTarget?.addEventListener(type, this.handleInput, { passive: true });
+    });
+  }
+
+  /**
+   * Start or resume playback
+   */
+  play(): void {
+    if (this.isFinished()) return;
+    this.timeline.play();
+  }
+
+  /**
+   * Pause on the current frame; the camera stays put until play() or cancel()
+   */
+  pause(): void {
+    if (this.isFinished()) return;
+    this.timeline.pause();
+  }
+
+  /**
+   * Jump to a time in seconds, keeping the play/pause state
+   * Shot callbacks between the old and new time are skipped.
+   */
+  seek(seconds: number): void {
+    if (this.isFinished()) return;
+
+    if (seconds >= this.timeline.duration()) {
+      this.skipToEnd();
+      return;
+    }
+    this.timeline.seek(Math.max(0, seconds), true);
+    this.hooks.render();
+  }
+
+  /**
+   * Jump to the final frame and complete; remaining shot callbacks are skipped
+   */
+  skipToEnd(): void {
+    if (this.isFinished()) return;
+
+    this.timeline.progress(1, true);
+    this.hooks.render();
+    this.timeline.kill();
+    this.finish('completed');
+  }
+
+  /**
+   * Stop where the camera is now
+   */
+  cancel(): void {
+    if (this.isFinished()) return;
+
+    this.timeline.kill();
+    this.finish('cancelled');
+  }
+
+  /**
+   * Get the playhead time in seconds
+   */
+  getTime(): number {
+    return this.timeline.time();
+  }
+
+  /**
+   * Get the total length in seconds, holds included
+   */
+  getDuration(): number {
+    return this.timeline.duration();
+  }
+
+  /**
+   * Check if playback is paused
+   */
+  isPaused(): boolean {
+    return this.timeline.paused();
+  }
+
+  /**
+   * Check if playback has completed or been cancelled
+   */
+  isFinished(): boolean {
+    return this.settle === null;
+  }
+
+  /**
+   * Handle user input: hand the camera back
+   */
+  private handleInput = (): void => {
+    this.cancel();
+  };
+
+  /**
+   * Settle the finished promise once
+   */
+  private finish(result: ShotPlaybackResult): void {
+    const settle = this.settle;
+    if (!settle) return;
+    this.settle = null;
+
+    CANCEL_EVENTS.forEach((type) => {
+      this.hooks.inputTarget?.removeEventListener(type, this.handleInput);
+    });
+    this.hooks.end();
+    settle(result);
+  }
+}
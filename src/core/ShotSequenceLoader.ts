@@ -0,0 +1,229 @@
+/**
+ * ShotSequenceLoader.ts
+ * Loads and validates authored camera shot sequences
+ * Constitution Principle III: Stability (malformed sequences fail loudly with precise paths)
+ */
+
+import { AssetLoader } from './AssetLoader';
+import { ContentValidationError, type ContentIssue } from './ContentLoader';
+import type { CameraShot, ShotSequence } from '../types/ShotSequence';
+import type { Vector3Like } from '../types/Content';
+
+export const DEFAULT_SHOT_SEQUENCES_URL = '/content/camera-shots.json';
+
+const SEQUENCE_ID_PATTERN = /^[a-z0-9-]+$/;
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Collects issues while walking the raw JSON
+ */
+class ShotSequenceValidator {
+  readonly issues: ContentIssue[] = [];
+  private sequenceIds: Set<string> = new Set();
+
+  validate(data: unknown): ShotSequence[] | null {
+    const root = this.object(data, '$');
+    if (!root) return null;
+
+    if (!Array.isArray(root.sequences)) {
+      this.fail('$.sequences', `expected an array, got ${this.describe(root.sequences)}`);
+      return null;
+    }
+
+    const sequences: ShotSequence[] = [];
+    root.sequences.forEach((raw, index) => {
+      const sequence = this.sequence(raw, `$.sequences[${index}]`);
+      if (sequence) sequences.push(sequence);
+    });
+
+    return this.issues.length > 0 ? null : sequences;
+  }
+
+  private sequence(value: unknown, path: string): ShotSequence | null {
+    const raw = this.object(value, path);
+    if (!raw) return null;
+
+    let id: string | null = null;
+    if (typeof raw.id !== 'string' || !SEQUENCE_ID_PATTERN.test(raw.id)) {
+      this.fail(
+        `${path}.id`,
+        `expected lowercase letters, digits and hyphens, got ${this.describe(raw.id)}`
+      );
+    } else if (this.sequenceIds.has(raw.id)) {
+      this.fail(`${path}.id`, `duplicate sequence id "${raw.id}"`);
+    } else {
+      id = raw.id;
+      this.sequenceIds.add(id);
+    }
+
+    const shots: CameraShot[] = [];
+    if (!Array.isArray(raw.shots) || raw.shots.length === 0) {
+      this.fail(`${path}.shots`, `expected a non-empty array, got ${this.describe(raw.shots)}`);
+    } else {
+      raw.shots.forEach((rawShot, index) => {
+        const shot = this.shot(rawShot, `${path}.shots[${index}]`);
+        if (shot) shots.push(shot);
+      });
+    }
+
+    return id === null ? null : { id, shots };
+  }
+
+  private shot(value: unknown, path: string): CameraShot | null {
+    const raw = this.object(value, path);
+    if (!raw) return null;
+
+    const position = this.vector3(raw.position, `${path}.position`);
+    const target = this.vector3(raw.target, `${path}.target`);
+    const duration = this.number(raw.duration, `${path}.duration`, 0);
+    const fov = this.optionalNumber(raw.fov, `${path}.fov`, 1);
+    const roll = this.optionalNumber(raw.roll, `${path}.roll`);
+    const hold = this.optionalNumber(raw.hold, `${path}.hold`, 0);
+    const ease = this.optionalString(raw.ease, `${path}.ease`);
+    const onStart = this.optionalString(raw.onStart, `${path}.onStart`);
+    const onComplete = this.optionalString(raw.onComplete, `${path}.onComplete`);
+
+    if (fov !== undefined && fov >= 180) {
+      this.fail(`${path}.fov`, `expected less than 180 degrees, got ${fov}`);
+    }
+
+    if (!position || !target || duration === null) return null;
+
+    const shot: CameraShot = { position, target, duration };
+    if (fov !== undefined) shot.fov = fov;
+    if (roll !== undefined) shot.roll = roll;
+    if (hold !== undefined) shot.hold = hold;
+    if (ease !== undefined) shot.ease = ease;
+    if (onStart !== undefined) shot.onStart = onStart;
+    if (onComplete !== undefined) shot.onComplete = onComplete;
+    return shot;
+  }
+
+  private vector3(value: unknown, path: string): Vector3Like | null {
+    const raw = this.object(value, path);
+    if (!raw) return null;
+
+    const x = this.number(raw.x, `${path}.x`);
+    const y = this.number(raw.y, `${path}.y`);
+    const z = this.number(raw.z, `${path}.z`);
+    return x === null || y === null || z === null ? null : { x, y, z };
+  }
+
+  private number(value: unknown, path: string, min: number = -Infinity): number | null {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(path, `expected a finite number, got ${this.describe(value)}`);
+      return null;
+    }
+    if (value < min) {
+      this.fail(path, `expected at least ${min}, got ${value}`);
+      return null;
+    }
+    return value;
+  }
+
+  /**
+   * Optional fields accept null or absence (normalized to undefined)
+   */
+  private optionalNumber(value: unknown, path: string, min?: number): number | undefined {
+    if (value === undefined || value === null) return undefined;
+    return this.number(value, path, min) ?? undefined;
+  }
+
+  private optionalString(value: unknown, path: string): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      this.fail(path, `expected a non-empty string, got ${this.describe(value)}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  private object(value: unknown, path: string): JsonObject | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.fail(path, `expected an object, got ${this.describe(value)}`);
+      return null;
+    }
+    return value as JsonObject;
+  }
+
+  private fail(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  private describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'string') return `"${value}"`;
+    return typeof value;
+  }
+}
+
+export class ShotSequenceLoader {
+  private static instance: ShotSequenceLoader | null = null;
+
+  private sequences: Map<string, ShotSequence> = new Map();
+  private loadPromise: Promise<ShotSequence[]> | null = null;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): ShotSequenceLoader {
+    if (!ShotSequenceLoader.instance) {
+      ShotSequenceLoader.instance = new ShotSequenceLoader();
+    }
+    return ShotSequenceLoader.instance;
+  }
+
+  /**
+   * Validate raw JSON against the shot sequence format (src/types/ShotSequence.ts)
+   * @throws ContentValidationError listing every issue with its JSON path
+   */
+  static validate(data: unknown, url: string = DEFAULT_SHOT_SEQUENCES_URL): ShotSequence[] {
+    const validator = new ShotSequenceValidator();
+    const result = validator.validate(data);
+
+    if (!result || validator.issues.length > 0) {
+      throw new ContentValidationError(url, validator.issues);
+    }
+    return result;
+  }
+
+  /**
+   * Fetch and validate shot sequences (fetched once, then cached in memory)
+   * Goes through AssetLoader, so the file is also kept for offline visits.
+   */
+  load(url: string = DEFAULT_SHOT_SEQUENCES_URL): Promise<ShotSequence[]> {
+    if (!this.loadPromise) {
+      this.loadPromise = AssetLoader.getInstance()
+        .load(url, 'json')
+        .then((data) => {
+          const sequences = ShotSequenceLoader.validate(data, url);
+          this.sequences = new Map(sequences.map((sequence) => [sequence.id, sequence]));
+          return sequences;
+        });
+
+      // Allow a retry if loading failed
+      this.loadPromise.catch(() => {
+        this.loadPromise = null;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Get a loaded sequence by id
+   */
+  getSequence(id: string): ShotSequence | undefined {
+    return this.sequences.get(id);
+  }
+
+  /**
+   * Clean up and reset singleton
+   */
+  static dispose(): void {
+    ShotSequenceLoader.instance = null;
+  }
+}
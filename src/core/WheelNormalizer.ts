@@ -0,0 +1,147 @@
+/**
+ * WheelNormalizer.ts
+ * Turns raw wheel events from mice, trackpads and page scrolling into comparable pixel deltas
+ * Constitution Principle V: Accessibility & Input Gracefulness (every device scrolls alike)
+ */
+
+import type { ScrollIntent, WheelOptions, WheelSample } from '../types/Wheel';
+
+// Growth over the previous event that counts as a fresh push during an inertial tail
+const INERTIA_RESTART_RATIO = 1.5;
+
+/**
+ * normalize() converts one event to pixels; process() then follows scroll gestures to spot
+ * inertial tails and, in snap mode, to turn each gesture into at most one intent.
+ * Timing comes from the caller, so replays recognize the same tails and intents.
+ */
+export class WheelNormalizer {
+  private options: Required<WheelOptions>;
+
+  // Current gesture: events in one direction without a gestureTimeout pause
+  private lastTime: number = -Infinity;
+  private lastMagnitude: number = 0;
+  private direction: number = 0;
+  private shrinkingEvents: number = 0;
+  private inertial: boolean = false;
+
+  // Snap mode
+  private snapAccumulator: number = 0;
+  private snapUsed: boolean = false; // this gesture already produced an intent
+  private cooldownUntil: number = -Infinity;
+
+  constructor(options: WheelOptions = {}) {
+    this.options = {
+      lineHeight: options.lineHeight ?? 16,
+      maxDelta: options.maxDelta ?? 200,
+      gestureTimeout: options.gestureTimeout ?? 200,
+      inertiaEvents: options.inertiaEvents ?? 3,
+      snap: options.snap ?? false,
+      snapThreshold: options.snapThreshold ?? 40,
+      snapCooldown: options.snapCooldown ?? 500,
+    };
+  }
+
+  /**
+   * Change options; turning snap mode on or off starts from a clean gesture
+   */
+  setOptions(options: WheelOptions): void {
+    const snapChanged = options.snap !== undefined && options.snap !== this.options.snap;
+    this.options = { ...this.options, ...options };
+    if (snapChanged) this.reset();
+  }
+
+  /**
+   * Get the current options
+   */
+  getOptions(): Readonly<Required<WheelOptions>> {
+    return { ...this.options };
+  }
+
+  /**
+   * Convert an event's deltaY to pixels, clamped to maxDelta
+   * @param pageHeight Pixels per page for DOM_DELTA_PAGE events, usually the canvas height
+   */
+  normalize(deltaY: number, deltaMode: number, pageHeight: number): number {
+    let pixels = deltaY;
+    if (deltaMode === 1) pixels *= this.options.lineHeight; // WheelEvent.DOM_DELTA_LINE
+    if (deltaMode === 2) pixels *= pageHeight; // WheelEvent.DOM_DELTA_PAGE
+
+    const max = this.options.maxDelta;
+    return Math.min(Math.max(pixels, -max), max);
+  }
+
+  /**
+   * Classify a normalized delta within its gesture
+   * @param time Event time in ms (InputHandler's clock)
+   */
+  process(delta: number, time: number): WheelSample {
+    const magnitude = Math.abs(delta);
+    const direction = Math.sign(delta);
+
+    if (
+      time - this.lastTime > this.options.gestureTimeout ||
+      (direction !== 0 && direction !== this.direction)
+    ) {
+      this.startGesture(direction);
+    } else if (magnitude < this.lastMagnitude) {
+      this.shrinkingEvents++;
+      if (this.shrinkingEvents >= this.options.inertiaEvents) this.inertial = true;
+    } else if (magnitude > this.lastMagnitude * INERTIA_RESTART_RATIO && this.inertial) {
+      // Fingers back on the trackpad before the tail died out
+      this.startGesture(direction);
+    } else if (magnitude > this.lastMagnitude) {
+      this.shrinkingEvents = 0;
+    }
+
+    this.lastTime = time;
+    this.lastMagnitude = magnitude;
+
+    const intent = this.options.snap ? this.updateSnap(delta, time) : null;
+    return { delta, inertial: this.inertial, intent };
+  }
+
+  /**
+   * Check if the latest event belonged to an inertial tail
+   */
+  isInertial(): boolean {
+    return this.inertial;
+  }
+
+  /**
+   * Forget the current gesture and snap cooldown
+   */
+  reset(): void {
+    this.lastTime = -Infinity;
+    this.lastMagnitude = 0;
+    this.startGesture(0);
+    this.cooldownUntil = -Infinity;
+  }
+
+  /**
+   * Begin a new gesture in a direction
+   */
+  private startGesture(direction: number): void {
+    this.direction = direction;
+    this.shrinkingEvents = 0;
+    this.inertial = false;
+    this.snapAccumulator = 0;
+    this.snapUsed = false;
+  }
+
+  /**
+   * Collect intentional scrolling until it is worth one intent
+   * Inertia, the rest of a gesture that already stepped and the cooldown are ignored.
+   */
+  private updateSnap(delta: number, time: number): ScrollIntent | null {
+    if (this.inertial || this.snapUsed || time < this.cooldownUntil) return null;
+
+    this.snapAccumulator += delta;
+    if (Math.abs(this.snapAccumulator) < this.options.snapThreshold) return null;
+
+    const intent: ScrollIntent = this.snapAccumulator > 0 ? 'next' : 'previous';
+    this.snapAccumulator = 0;
+    this.snapUsed = true;
+    this.cooldownUntil = time + this.options.snapCooldown;
+    return intent;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * AudioBufferLoader.ts
+ * Loads and decodes audio files into AudioBuffers for THREE.Audio / PositionalAudio
+ */
+
+import * as THREE from 'three';
+import type { AssetLoadContext, AssetLoaderPlugin } from '../../types/AssetLoaderPlugin';
+
+export class AudioBufferLoader implements AssetLoaderPlugin<'audio'> {
+  readonly kind = 'audio';
+  readonly extensions = ['mp3', 'ogg', 'wav', 'm4a', 'aac', 'flac'];
+
+  /**
+   * Fetch and decode an audio file
+   */
+  load(url: string, { manager, onProgress }: AssetLoadContext): Promise<AudioBuffer> {
+    return new THREE.AudioLoader(manager).loadAsync(url, (event) =>
+      onProgress(event.loaded, event.total)
+    );
+  }
+
+  /**
+   * Decoded audio lives in CPU memory and is not counted against the GPU budget
+   */
+  estimateBytes(): number {
+    return 0;
+  }
+
+  /**
+   * AudioBuffers have no explicit release; they are collected once uncached
+   */
+  dispose(): void {
+    // Collected by the garbage collector
+  }
+}
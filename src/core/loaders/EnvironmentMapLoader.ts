@@ -0,0 +1,68 @@
+/**
+ * EnvironmentMapLoader.ts
+ * Loads equirectangular HDR/EXR maps and prefilters them with PMREM for image-based lighting
+ */
+
+import * as THREE from 'three';
+import { HDRLoader } from 'three/examples/jsm/loaders/HDRLoader.js';
+import { EXRLoader } from 'three/examples/jsm/loaders/EXRLoader.js';
+import { ResourceDisposer } from '../../utils/ResourceDisposer';
+import { MemoryEstimator } from '../../utils/MemoryEstimator';
+import type { AssetLoadContext, AssetLoaderPlugin } from '../../types/AssetLoaderPlugin';
+
+export class EnvironmentMapLoader implements AssetLoaderPlugin<'environment'> {
+  readonly kind = 'environment';
+  readonly extensions = ['hdr', 'exr'];
+
+  // PMREM output lives in a render target; disposing only its texture would leak the framebuffer
+  private renderTargets: WeakMap<THREE.Texture, THREE.WebGLRenderTarget> = new WeakMap();
+
+  /**
+   * Load the equirectangular source and convert it to a PMREM cube UV texture
+   * The source texture is released once converted.
+   */
+  async load(
+    url: string,
+    { manager, renderer, onProgress }: AssetLoadContext
+  ): Promise<THREE.Texture> {
+    if (!renderer) {
+      throw new Error(`Cannot load environment map ${url}: call setRenderer(renderer) first`);
+    }
+
+    const loader = /\.exr($|[?#])/i.test(url) ? new EXRLoader(manager) : new HDRLoader(manager);
+    const equirectangular = await loader.loadAsync(url, (event) =>
+      onProgress(event.loaded, event.total)
+    );
+    equirectangular.mapping = THREE.EquirectangularReflectionMapping;
+
+    const pmremGenerator = new THREE.PMREMGenerator(renderer);
+    try {
+      const renderTarget = pmremGenerator.fromEquirectangular(equirectangular);
+      this.renderTargets.set(renderTarget.texture, renderTarget);
+      return renderTarget.texture;
+    } finally {
+      pmremGenerator.dispose();
+      ResourceDisposer.disposeTexture(equirectangular);
+    }
+  }
+
+  /**
+   * Estimate GPU bytes of the prefiltered texture
+   */
+  estimateBytes(texture: THREE.Texture): number {
+    return MemoryEstimator.estimateTextureBytes(texture);
+  }
+
+  /**
+   * Dispose the PMREM render target
+   */
+  dispose(texture: THREE.Texture): void {
+    const renderTarget = this.renderTargets.get(texture);
+    if (renderTarget) {
+      this.renderTargets.delete(texture);
+      ResourceDisposer.disposeRenderTarget(renderTarget);
+    } else {
+      ResourceDisposer.disposeTexture(texture);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * JSONDataLoader.ts
+ * Loads JSON data files (shot lists, animation data, level layouts)
+ */
+
+import * as THREE from 'three';
+import type { AssetLoadContext, AssetLoaderPlugin } from '../../types/AssetLoaderPlugin';
+
+export class JSONDataLoader implements AssetLoaderPlugin<'json'> {
+  readonly kind = 'json';
+  readonly extensions = ['json'];
+
+  /**
+   * Fetch and parse a JSON file
+   * The result is not validated; callers narrow it to their own types.
+   */
+  load(url: string, { manager, onProgress }: AssetLoadContext): Promise<unknown> {
+    const loader = new THREE.FileLoader(manager).setResponseType('json');
+    return loader.loadAsync(url, (event) => onProgress(event.loaded, event.total));
+  }
+
+  /**
+   * Parsed JSON lives in CPU memory and is not counted against the GPU budget
+   */
+  estimateBytes(): number {
+    return 0;
+  }
+
+  /**
+   * Nothing to release; the data is collected once uncached
+   */
+  dispose(): void {
+    // Collected by the garbage collector
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * MSDFFontLoader.ts
+ * Loads MSDF fonts: a BMFont JSON description plus its atlas page textures
+ */
+
+import * as THREE from 'three';
+import { ResourceDisposer } from '../../utils/ResourceDisposer';
+import { MemoryEstimator } from '../../utils/MemoryEstimator';
+import type { AssetLoadContext, AssetLoaderPlugin } from '../../types/AssetLoaderPlugin';
+import type { MSDFFont, MSDFFontData } from '../../types/MSDFFont';
+
+export class MSDFFontLoader implements AssetLoaderPlugin<'font'> {
+  readonly kind = 'font';
+  // Font descriptions are plain .json files, so fonts are only loaded with an explicit 'font' kind
+  readonly extensions = [];
+
+  /**
+   * Load the font description, then every atlas page relative to it
+   */
+  async load(url: string, { manager, onProgress }: AssetLoadContext): Promise<MSDFFont> {
+    const raw = (await new THREE.FileLoader(manager)
+      .setResponseType('json')
+      .loadAsync(url, (event) => onProgress(event.loaded, event.total))) as unknown;
+    const data = this.validate(url, raw);
+
+    const textureLoader = new THREE.TextureLoader(manager);
+    const baseUrl = THREE.LoaderUtils.extractUrlBase(url);
+    const results = await Promise.allSettled(
+      data.pages.map((page) => textureLoader.loadAsync(THREE.LoaderUtils.resolveURL(page, baseUrl)))
+    );
+
+    const pages = results
+      .filter((result) => result.status === 'fulfilled')
+      .map((result) => result.value);
+    const failure = results.find((result) => result.status === 'rejected');
+    if (failure) {
+      pages.forEach((page) => ResourceDisposer.disposeTexture(page));
+      throw failure.reason;
+    }
+
+    // Distance fields are sampled linearly; mipmaps blur the edges
+    pages.forEach((page) => {
+      page.generateMipmaps = false;
+      page.minFilter = THREE.LinearFilter;
+      page.magFilter = THREE.LinearFilter;
+    });
+
+    return { data, pages };
+  }
+
+  /**
+   * Estimate GPU bytes of the atlas pages
+   */
+  estimateBytes(font: MSDFFont): number {
+    return font.pages.reduce((sum, page) => sum + MemoryEstimator.estimateTextureBytes(page), 0);
+  }
+
+  /**
+   * Dispose the atlas pages
+   */
+  dispose(font: MSDFFont): void {
+    font.pages.forEach((page) => ResourceDisposer.disposeTexture(page));
+  }
+
+  /**
+   * Check the fields the text renderer depends on
+   */
+  private validate(url: string, raw: unknown): MSDFFontData {
+    const data = raw as Partial<MSDFFontData> | null;
+    if (
+      !data ||
+      typeof data !== 'object' ||
+      !Array.isArray(data.pages) ||
+      !Array.isArray(data.chars) ||
+      typeof data.common !== 'object' ||
+      data.common === null
+    ) {
+      throw new Error(
+        `Invalid MSDF font ${url}: expected BMFont JSON with pages, chars and common`
+      );
+    }
+    return data as MSDFFontData;
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * CacheStorageAssetStore.ts
+ * PersistentAssetStore backed by the Cache Storage API
+ * Entry metadata travels in response headers, so entries survive reloads without a side index.
+ */
+
+import type {
+  PersistentAssetStore,
+  PersistentEntry,
+  PersistentEntryInfo,
+} from '../../types/PersistentAssetStore';
+
+export const DEFAULT_ASSET_CACHE_NAME = 'hun-bot-assets';
+
+const HEADER_URL = 'X-Asset-Url';
+const HEADER_VERSION = 'X-Asset-Version';
+const HEADER_PINNED = 'X-Asset-Pinned';
+const HEADER_STORED_AT = 'X-Asset-Stored-At';
+
+export class CacheStorageAssetStore implements PersistentAssetStore {
+  private cachePromise: Promise<Cache> | null = null;
+
+  constructor(private cacheName: string = DEFAULT_ASSET_CACHE_NAME) {}
+
+  /**
+   * Check whether Cache Storage is available (secure contexts only)
+   */
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && 'caches' in window && window.isSecureContext;
+  }
+
+  /**
+   * Get a stored entry
+   */
+  async get(url: string): Promise<PersistentEntry | null> {
+    const cache = await this.open();
+    const response = await cache.match(this.toRequestUrl(url));
+    if (!response) return null;
+
+    const info = this.readInfo(response);
+    if (!info) return null;
+
+    return { info, blob: await response.blob() };
+  }
+
+  /**
+   * Store an entry, replacing any previous one for the URL
+   */
+  async put({ info, blob }: PersistentEntry): Promise<void> {
+    const cache = await this.open();
+    const headers = new Headers({
+      'Content-Type': blob.type || 'application/octet-stream',
+      'Content-Length': String(blob.size),
+      [HEADER_URL]: info.url,
+      [HEADER_VERSION]: info.version,
+      [HEADER_PINNED]: String(info.pinned),
+      [HEADER_STORED_AT]: String(info.storedAt),
+    });
+    await cache.put(this.toRequestUrl(info.url), new Response(blob, { headers }));
+  }
+
+  /**
+   * Remove an entry
+   */
+  async delete(url: string): Promise<boolean> {
+    const cache = await this.open();
+    return cache.delete(this.toRequestUrl(url));
+  }
+
+  /**
+   * List stored entries
+   */
+  async list(): Promise<PersistentEntryInfo[]> {
+    const cache = await this.open();
+    const infos: PersistentEntryInfo[] = [];
+
+    for (const request of await cache.keys()) {
+      const response = await cache.match(request);
+      const info = response ? this.readInfo(response) : null;
+      if (info) infos.push(info);
+    }
+
+    return infos;
+  }
+
+  /**
+   * Remove every entry (deletes the whole named cache)
+   */
+  async clear(): Promise<void> {
+    this.cachePromise = null;
+    await caches.delete(this.cacheName);
+  }
+
+  /**
+   * Open the named cache once
+   */
+  private open(): Promise<Cache> {
+    if (!this.cachePromise) {
+      this.cachePromise = caches.open(this.cacheName);
+    }
+    return this.cachePromise;
+  }
+
+  /**
+   * Cache Storage keys are absolute URLs
+   */
+  private toRequestUrl(url: string): string {
+    return new URL(url, window.location.href).href;
+  }
+
+  /**
+   * Read entry metadata from response headers (null for foreign entries)
+   */
+  private readInfo(response: Response): PersistentEntryInfo | null {
+    const url = response.headers.get(HEADER_URL);
+    const version = response.headers.get(HEADER_VERSION);
+    if (url === null || version === null) return null;
+
+    return {
+      url,
+      version,
+      pinned: response.headers.get(HEADER_PINNED) === 'true',
+      bytes: Number(response.headers.get('Content-Length') ?? 0),
+      storedAt: Number(response.headers.get(HEADER_STORED_AT) ?? 0),
+    };
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * MemoryAssetStore.ts
+ * In-memory PersistentAssetStore for tests and browsers without Cache Storage
+ */
+
+import type {
+  PersistentAssetStore,
+  PersistentEntry,
+  PersistentEntryInfo,
+} from '../../types/PersistentAssetStore';
+
+export class MemoryAssetStore implements PersistentAssetStore {
+  private entries: Map<string, PersistentEntry> = new Map();
+
+  /**
+   * Get a stored entry
+   */
+  get(url: string): Promise<PersistentEntry | null> {
+    const entry = this.entries.get(url);
+    return Promise.resolve(entry ? { info: { ...entry.info }, blob: entry.blob } : null);
+  }
+
+  /**
+   * Store an entry, replacing any previous one for the URL
+   */
+  put(entry: PersistentEntry): Promise<void> {
+    this.entries.set(entry.info.url, { info: { ...entry.info }, blob: entry.blob });
+    return Promise.resolve();
+  }
+
+  /**
+   * Remove an entry
+   */
+  delete(url: string): Promise<boolean> {
+    return Promise.resolve(this.entries.delete(url));
+  }
+
+  /**
+   * List stored entries
+   */
+  list(): Promise<PersistentEntryInfo[]> {
+    return Promise.resolve([...this.entries.values()].map((entry) => ({ ...entry.info })));
+  }
+
+  /**
+   * Remove every entry
+   */
+  clear(): Promise<void> {
+    this.entries.clear();
+    return Promise.resolve();
+  }
+}
@@ -1,7 +1,36 @@
-// Minimal application bootstrap
-// This file intentionally avoids importing heavy runtimes until dependencies are installed.
+// Application bootstrap
+// Creates the renderer, camera and SceneManager, then hands navigation over to the scenes.
 
 import './styles/global.css';
+import * as THREE from 'three';
+import { CameraController } from './core/CameraController';
+import { InspectControls } from './core/InspectControls';
+import { FirstPersonControls } from './core/FirstPersonControls';
+import { CameraRail } from './core/CameraRail';
+import { InputHandler } from './core/InputHandler';
+import { InputRecorder } from './core/InputRecorder';
+import { InputReplay } from './core/InputReplay';
+import { InteractionManager } from './core/InteractionManager';
+import { AccessibleMirror } from './core/AccessibleMirror';
+import { ParallaxRig } from './core/ParallaxRig';
+import { ActionMap } from './core/ActionMap';
+import { SceneManager } from './core/SceneManager';
+import { Router } from './core/Router';
+import { ContentLoader } from './core/ContentLoader';
+import { ShotSequenceLoader } from './core/ShotSequenceLoader';
+import { AssetLoader } from './core/AssetLoader';
+import { PersistentAssetCache } from './core/PersistentAssetCache';
+import { CacheStorageAssetStore } from './core/stores/CacheStorageAssetStore';
+import { MemoryEstimator } from './utils/MemoryEstimator';
+import { PerformanceMonitor } from './utils/PerformanceMonitor';
+import { InputRecordingCodec } from './utils/InputRecordingCodec';
+import { SectionScene } from './scenes/SectionScene';
+import { ASSET_MANIFEST } from './content/asset-manifest';
+import type { Scene } from './types/Scene';
+import type { InputRecording } from './types/InputRecording';
+
+// Rail scrolling from a fully tilted left stick, in wheel pixels per second
+const STICK_SCROLL_SPEED = 1500;
 
 function supportsWebGL2(): boolean {
   try {
@@ -12,24 +41,326 @@ function supportsWebGL2(): boolean {
   }
 }
 
+function hideLoadingOverlay(loadingOverlay: HTMLElement | null): void {
+  if (!loadingOverlay || loadingOverlay.classList.contains('hidden')) return;
+
+  loadingOverlay.classList.add('hidden');
+  setTimeout(() => {
+    loadingOverlay.style.display = 'none';
+  }, 900);
+}
+
+function setActiveNavButton(sceneId: string): void {
+  document.querySelectorAll<HTMLButtonElement>('.nav-button').forEach((button) => {
+    button.classList.toggle('active', button.dataset.scene === sceneId);
+  });
+}
+
 window.addEventListener('DOMContentLoaded', () => {
   const fallback = document.getElementById('webgl-fallback');
   const loadingOverlay = document.getElementById('loading-overlay');
+  const loadingProgressBar = document.getElementById('loading-progress-bar');
+  const canvas = document.getElementById('three-canvas') as HTMLCanvasElement | null;
 
-  if (!supportsWebGL2()) {
+  if (!supportsWebGL2() || !canvas) {
     if (fallback) fallback.style.display = 'flex';
     if (loadingOverlay) loadingOverlay.style.display = 'none';
     console.warn('WebGL 2.0 not supported in this browser.');
     return;
   }
 
-  // If dependencies are installed later, the real bootstrap will replace this behavior
-  if (loadingOverlay) {
-    loadingOverlay.classList.add('hidden');
-    setTimeout(() => {
-      if (loadingOverlay) loadingOverlay.style.display = 'none';
-    }, 900);
+  const renderer = new THREE.WebGLRenderer({ canvas, antialias: true });
+  renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+  renderer.setSize(window.innerWidth, window.innerHeight);
+
+  const camera = new THREE.PerspectiveCamera(60, window.innerWidth / window.innerHeight, 0.1, 1000);
+  const cameraController = new CameraController(camera);
+  const sceneManager = new SceneManager(renderer, camera, cameraController);
+
+  // Dev builds check every frame against the constitution budgets and warn in the console;
+  // texture memory comes from AssetLoader's estimates, the same figure its budget evicts on
+  const monitor = import.meta.env.DEV ? new PerformanceMonitor(renderer) : null;
+  monitor?.setMemorySource(() => AssetLoader.getInstance().getMemoryUsage().textureBytes);
+
+  // Orbit/dolly/pan input; only acts while a scene has put the camera in inspect mode
+  const inspectControls = new InspectControls(cameraController, canvas);
+  inspectControls.enable();
+
+  // Keyboard and screen reader access to the same objects: Tab frames them, Enter clicks
+  const mirror = new AccessibleMirror(cameraController, document.getElementById('app') ?? canvas);
+  // Framing a focused object leaves the rail; tabbing away from the objects goes back to it
+  let railBeforeFocus: CameraRail | null = null;
+  mirror.setOnFocusChange((object) => {
+    if (object) {
+      railBeforeFocus ??= cameraController.getRail();
+      return;
+    }
+    const rail = railBeforeFocus;
+    railBeforeFocus = null;
+    if (rail && !cameraController.isOnRail()) void cameraController.enterRail(rail);
+  });
+
+  // Wheel/trackpad scrolling and the gamepad's left stick scrub the camera rail (see below)
+  const inputHandler = new InputHandler(canvas);
+  // Only the rail consumes wheel scrolling; inspect mode dollies through InspectControls
+  inputHandler.setWheelCapture(() => cameraController.isOnRail());
+  let stickScroll = 0;
+  cameraController.setRailInput(() => {
+    const scroll = inputHandler.getScrollDelta() + stickScroll;
+    stickScroll = 0;
+    return scroll;
+  });
+
+  // Hover, click and drag on objects scenes register with InteractionManager; its pointer
+  // input comes through InputHandler, so replays reproduce it
+  InteractionManager.getInstance().attach(canvas, camera, inputHandler);
+
+  // Parallax follows the pointer; on touch screens device tilt takes over
+  const parallax = cameraController.getParallax();
+  parallax.setPointerSource(() => inputHandler.getPointerState());
+  if (window.matchMedia('(pointer: coarse)').matches) {
+    if (ParallaxRig.needsOrientationPermission()) {
+      // iOS only shows the permission prompt from a tap
+      window.addEventListener('touchend', () => void parallax.enableDeviceOrientation(), {
+        once: true,
+      });
+    } else {
+      void parallax.enableDeviceOrientation();
+    }
+  }
+
+  // Draco/meshopt geometry and KTX2 textures, decoded from local binaries
+  AssetLoader.getInstance().configureDecoders({ renderer });
+  AssetLoader.getInstance().setOnError((url, error) => {
+    console.error(`Asset failed to load: ${url}`, error);
+  });
+
+  // Overlay shows byte-weighted progress of whichever group is loading (usually the first scene)
+  AssetLoader.getInstance().setOnGroupProgress((event) => {
+    if (loadingProgressBar) loadingProgressBar.style.width = `${Math.round(event.progress * 100)}%`;
+  });
+
+  AssetLoader.getInstance().setOnEvict((event) => {
+    console.warn(
+      `Evicted ${event.kind} ${event.url} (${MemoryEstimator.toMB(event.bytes).toFixed(1)}MB) ` +
+        `to stay within ${MemoryEstimator.toMB(event.budgetBytes).toFixed(0)}MB`
+    );
+  });
+
+  const content = ContentLoader.getInstance();
+  let router: Router | null = null;
+
+  // Section order: rail stops while on the rail, otherwise content order
+  const stepSection = (direction: 1 | -1): void => {
+    const rail = cameraController.getRail();
+    const progress = cameraController.getRailProgress();
+    if (rail && progress !== null) {
+      const stop = rail.getAdjacentStop(progress, direction);
+      if (stop) void cameraController.moveRailToStop(stop.id);
+      return;
+    }
+
+    const ids = content.getData()?.sections.map((section) => section.id) ?? [];
+    const next = ids[ids.indexOf(router?.getCurrentRoute()?.sceneId ?? '') + direction];
+    if (!next || !router) return;
+    router.navigate(next).catch((error) => console.error(`Navigation to "${next}" failed:`, error));
+  };
+
+  // Pointer-lock walking, entered from the gallery's centerpiece; leaving (Escape, back, losing
+  // the lock or navigating away) returns to the current section's stop on the scroll rail
+  const firstPerson = new FirstPersonControls(cameraController, inputHandler, canvas);
+  let scrollRail: CameraRail | null = null;
+  firstPerson.setOnChange((active) => {
+    if (active || !scrollRail) return;
+    const stop = scrollRail.getStop(router?.getCurrentRoute()?.sceneId ?? '');
+    void cameraController.enterRail(scrollRail, {}, stop?.progress);
+  });
+
+  // Snap mode (setWheelOptions({ snap: true })) steps whole sections per scroll gesture
+  inputHandler.setOnScrollIntent((intent) => stepSection(intent === 'next' ? 1 : -1));
+
+  // Back never leaves the site: previous viewpoint, then project -> section -> landing
+  const goBack = (): void => {
+    if (cameraController.isInspecting() && cameraController.canGoBack()) {
+      void cameraController.back();
+      return;
+    }
+
+    const route = router?.getCurrentRoute();
+    if (!router || !route) return;
+    const target = route.projectId ? route.sceneId : 'landing';
+    if (target === route.sceneId && !route.projectId) return;
+    router
+      .navigate(target)
+      .catch((error) => console.error(`Navigation to "${target}" failed:`, error));
+  };
+
+  // Input capture for bug reports and demo reels; replays take over the frame clock
+  const recorder = new InputRecorder(inputHandler);
+  let replay: InputReplay | null = null;
+  const startReplay = (recording: InputRecording, fixedTimestep: number | null): void => {
+    replay?.stop();
+    const current = new InputReplay(inputHandler, recording, { fixedTimestep });
+    current.setOnComplete(() => sceneManager.setFrameClock(null));
+    current.start();
+    sceneManager.setFrameClock((wallDelta) => current.nextFrame(wallDelta));
+    replay = current;
+  };
+
+  // Dev builds expose recording on the console, e.g. copy(hunBotInput.stop())
+  if (import.meta.env.DEV) {
+    Object.assign(window, {
+      hunBotInput: {
+        record: () => recorder.start(),
+        stop: () => InputRecordingCodec.encode(recorder.stop()),
+        play: (json: string, fixedTimestep: number | null = null) => {
+          const recording = InputRecordingCodec.decode(json);
+          if (recording) startReplay(recording, fixedTimestep);
+          return recording !== null;
+        },
+        stopReplay: () => {
+          replay?.stop();
+          sceneManager.setFrameClock(null);
+        },
+      },
+    });
   }
 
-  console.log('Minimal bootstrap loaded. Install dependencies to enable full experience.');
+  // Device-independent actions, sampled at the start of every frame (scenes may poll them too)
+  const actions = new ActionMap(inputHandler);
+  sceneManager.setOnFrame((delta) => {
+    monitor?.update();
+    inputHandler.update();
+    recorder.captureFrame(delta);
+    actions.update();
+
+    // Gamepad sticks: the left one scrubs the rail, both steer inspect mode
+    const gamepad = inputHandler.getGamepadState();
+    stickScroll += (gamepad?.leftStick.y ?? 0) * STICK_SCROLL_SPEED * delta;
+    inspectControls.applyGamepad(gamepad, delta);
+    firstPerson.update(delta);
+  });
+  actions.setOnAction((action, edge) => {
+    if (edge !== 'pressed') return;
+
+    switch (action) {
+      case 'nextSection':
+        stepSection(1);
+        break;
+      case 'prevSection':
+        stepSection(-1);
+        break;
+      case 'back':
+        if (firstPerson.isActive()) firstPerson.exit();
+        else goBack();
+        break;
+      case 'toggleOverlay':
+        document.getElementById('nav-menu')?.classList.toggle('hidden');
+        break;
+      case 'select':
+        // Handled by the scene under the pointer
+        break;
+    }
+  });
+
+  // Camera poses come from the section with the same id in portfolio-data.json
+  const registerScene = (scene: Scene): void => {
+    const pose = content.getCameraPose(scene.id);
+    if (!pose) {
+      console.warn(`No content section for scene "${scene.id}", it will not move the camera.`);
+    }
+    sceneManager.register(scene, pose);
+  };
+
+  document.querySelectorAll<HTMLButtonElement>('.nav-button').forEach((button) => {
+    button.addEventListener('click', () => {
+      const sceneId = button.dataset.scene;
+      if (!sceneId || !router) return;
+
+      router
+        .navigate(sceneId)
+        .catch((error) => console.error(`Navigation to "${sceneId}" failed:`, error));
+    });
+  });
+
+  sceneManager.start();
+
+  content
+    .load()
+    .then(async (data) => {
+      // Offline copies of asset files, purged whenever the content version changes or the
+      // manifest drops or re-pins an asset with its own version
+      if (CacheStorageAssetStore.isSupported()) {
+        const persistentCache = new PersistentAssetCache(
+          new CacheStorageAssetStore(),
+          data.metadata.version
+        );
+        AssetLoader.getInstance().setPersistentCache(persistentCache);
+        // Purged before the first scene loads; storage errors are reported by the cache
+        // itself and never reject
+        await persistentCache.setManifest(ASSET_MANIFEST);
+      }
+
+      // Placeholder scenes for every section until their own scenes are built
+      const scenes: Scene[] = data.sections.map(
+        (section) =>
+          new SectionScene(section, {
+            onProjectSelect: (projectId) => {
+              router
+                ?.navigate(section.id, projectId)
+                .catch((error) => console.error(`Navigation to "${projectId}" failed:`, error));
+            },
+            // Still inside the click, so the browser accepts the pointer lock request
+            onWalk: () => firstPerson.enter(),
+          })
+      );
+      scenes.forEach(registerScene);
+
+      router = new Router(sceneManager, { projects: content.getProjectIdsBySection() });
+      router.onRouteChange((route) => {
+        setActiveNavButton(route.sceneId);
+        monitor?.setIsLandingScene(route.sceneId === 'landing');
+        const title = route.projectId
+          ? content.getProject(route.projectId)?.project.title
+          : content.getSection(route.sceneId)?.title;
+        if (title) mirror.announce(title);
+      });
+
+      // Scrolling travels a rail through every section in content order
+      const rail = CameraRail.fromPoses(
+        data.sections.flatMap((section) => {
+          const pose = content.getCameraPose(section.id);
+          return pose ? [{ id: section.id, pose }] : [];
+        })
+      );
+      cameraController.setOnRailStopChange((stop) => {
+        if (!router || !sceneManager.hasScene(stop.id)) return;
+        router
+          .navigate(stop.id, null, { replace: true, moveCamera: false })
+          .catch((error) => console.error(`Navigation to "${stop.id}" failed:`, error));
+      });
+
+      // Shot sequences are optional; a missing or invalid file only skips the intro
+      const shots = ShotSequenceLoader.getInstance();
+      const shotsLoaded = shots.load().catch((error) => {
+        console.warn('Camera shot sequences unavailable:', error);
+      });
+
+      await router.start();
+      hideLoadingOverlay(loadingOverlay);
+
+      // Fly in on the landing page; any input skips straight to scrolling
+      await shotsLoaded;
+      const intro = shots.getSequence('intro');
+      if (intro && router.getCurrentRoute()?.sceneId === 'landing') {
+        await cameraController.playSequence(intro).finished;
+      }
+
+      scrollRail = rail;
+      sceneManager.setRail(rail);
+      // A deep-linked project stays framed; leaving it for any section joins the rail there
+      if (!router.getCurrentRoute()?.projectId) await cameraController.enterRail(rail);
+    })
+    .catch((error) => console.error('Failed to start initial scene:', error))
+    .finally(() => hideLoadingOverlay(loadingOverlay));
 });
@@ -0,0 +1,172 @@
+/**
+ * SectionScene.ts
+ * Placeholder scene for a content section until its own scene is built
+ * Constitution Principle IV: Composable Scene Architecture with lifecycle hooks
+ */
+
+import * as THREE from 'three';
+import { AssetLoader, isAbortError } from '../core/AssetLoader';
+import { InteractionManager } from '../core/InteractionManager';
+import { ASSET_MANIFEST } from '../content/asset-manifest';
+import { ResourceDisposer } from '../utils/ResourceDisposer';
+import type { Scene } from '../types/Scene';
+import type { Section, SectionType } from '../types/Content';
+
+export interface SectionSceneOptions {
+  onProjectSelect?: (projectId: string) => void; // a project marker was clicked
+  onWalk?: () => void; // the gallery centerpiece was clicked (projects sections only)
+}
+
+// Accent colour of each section type, from the site's palette
+const SECTION_COLORS: Record<SectionType, number> = {
+  landing: 0x667eea,
+  content: 0x764ba2,
+  projects: 0x4fb3bf,
+  contact: 0xe0a96d,
+};
+
+// Project markers sit on a ring around the section's camera target
+const PROJECT_RING_RADIUS = 2.5;
+
+/**
+ * A slowly turning centerpiece at the section's camera target, plus one clickable
+ * marker per project. Enough for routing, rail stops and interaction to work end to end.
+ * In a projects section the centerpiece starts first-person walking (see onWalk).
+ */
+export class SectionScene implements Scene {
+  id: string;
+  scene: THREE.Scene = new THREE.Scene();
+
+  private section: Section;
+  private options: SectionSceneOptions;
+  private centerpiece: THREE.Mesh | null = null;
+  private markers: THREE.Mesh[] = [];
+
+  constructor(section: Section, options: SectionSceneOptions = {}) {
+    this.id = section.id;
+    this.section = section;
+    this.options = options;
+  }
+
+  /**
+   * Build lights, the centerpiece and project markers, then load the section's manifest group
+   */
+  async init(signal?: AbortSignal): Promise<void> {
+    const color = SECTION_COLORS[this.section.type];
+    const target = this.section.cameraTarget;
+
+    const key = new THREE.DirectionalLight(0xffffff, 2);
+    key.position.set(3, 5, 4);
+    this.scene.add(new THREE.AmbientLight(0xffffff, 0.4), key);
+
+    this.centerpiece = new THREE.Mesh(
+      new THREE.IcosahedronGeometry(1, 1),
+      new THREE.MeshStandardMaterial({ color, flatShading: true, roughness: 0.4 })
+    );
+    this.centerpiece.name = `${this.id}-centerpiece`;
+    this.centerpiece.position.set(target.x, target.y, target.z);
+    this.scene.add(this.centerpiece);
+
+    const projects = this.section.projects ?? [];
+    this.markers = projects.map((project, index) => {
+      const angle = (index / projects.length) * Math.PI * 2;
+      const marker = new THREE.Mesh(
+        new THREE.BoxGeometry(0.6, 0.6, 0.6),
+        new THREE.MeshStandardMaterial({ color: 0xffffff, emissive: color, roughness: 0.6 })
+      );
+      marker.name = project.id;
+      marker.position.set(
+        target.x + Math.sin(angle) * PROJECT_RING_RADIUS,
+        target.y,
+        target.z + Math.cos(angle) * PROJECT_RING_RADIUS
+      );
+      this.scene.add(marker);
+      return marker;
+    });
+
+    await this.loadAssets(signal);
+  }
+
+  /**
+   * Make the project markers (and the gallery centerpiece) clickable and keyboard reachable
+   */
+  mount(): void {
+    const interactions = InteractionManager.getInstance();
+    const projects = this.section.projects ?? [];
+
+    const centerpiece = this.centerpiece;
+    const onWalk = this.options.onWalk;
+    if (centerpiece && onWalk && this.section.type === 'projects') {
+      interactions.register(
+        centerpiece,
+        {
+          pointerenter: () => centerpiece.scale.setScalar(1.1),
+          pointerleave: () => centerpiece.scale.setScalar(1),
+          click: () => onWalk(),
+        },
+        { accessible: { label: `Walk through ${this.section.title}` } }
+      );
+    }
+
+    this.markers.forEach((marker, index) => {
+      const project = projects[index];
+      if (!project) return;
+
+      interactions.register(
+        marker,
+        {
+          pointerenter: () => marker.scale.setScalar(1.15),
+          pointerleave: () => marker.scale.setScalar(1),
+          click: () => this.options.onProjectSelect?.(project.id),
+        },
+        {
+          accessible: { label: project.title, description: project.description, role: 'link' },
+        }
+      );
+    });
+  }
+
+  /**
+   * Get a project's marker, framed by project routes (/projects/project-2)
+   */
+  getFocusObject(id: string): THREE.Object3D | null {
+    return this.markers.find((marker) => marker.name === id) ?? null;
+  }
+
+  /**
+   * Turn the centerpiece
+   */
+  update(delta: number): void {
+    if (this.centerpiece) this.centerpiece.rotation.y += delta * 0.3;
+  }
+
+  /**
+   * Unregister markers and free everything init built
+   */
+  dispose(): void {
+    const interactions = InteractionManager.getInstance();
+    this.markers.forEach((marker) => interactions.unregister(marker));
+    if (this.centerpiece) interactions.unregister(this.centerpiece);
+    this.markers = [];
+    this.centerpiece = null;
+    ResourceDisposer.disposeScene(this.scene);
+  }
+
+  /**
+   * Load this section's manifest group, reporting byte-weighted progress to the overlay
+   * The placeholder shapes stand in if an asset fails; cancellation still rejects init.
+   */
+  private async loadAssets(signal?: AbortSignal): Promise<void> {
+    if (!ASSET_MANIFEST[this.id]) return;
+
+    try {
+      await AssetLoader.getInstance().loadManifestGroup(ASSET_MANIFEST, this.id, {
+        owner: this.id,
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn(`Assets for section "${this.id}" unavailable, showing placeholders:`, error);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * AssetLoaderPlugin.ts
+ * Contract for loaders plugged into AssetLoader's registry
+ * Constitution Principle IV: Resource management (every asset kind knows how to dispose itself)
+ */
+
+import type * as THREE from 'three';
+import type { GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import type { MSDFFont } from './MSDFFont';
+
+/**
+ * Result type of each asset kind
+ * Custom kinds are added with declaration merging before registering their loader:
+ *   declare module '../types/AssetLoaderPlugin' { interface AssetTypeMap { csv: string[][] } }
+ */
+export interface AssetTypeMap {
+  model: GLTF;
+  texture: THREE.Texture;
+  environment: THREE.Texture; // PMREM-filtered, ready for scene.environment
+  audio: AudioBuffer;
+  json: unknown;
+  font: MSDFFont;
+}
+
+export type AssetKind = keyof AssetTypeMap;
+
+/**
+ * What AssetLoader hands a plugin for one load attempt
+ */
+export interface AssetLoadContext {
+  manager: THREE.LoadingManager; // shared manager, drives the global progress/error callbacks
+  renderer: THREE.WebGLRenderer | null; // see AssetLoader.setRenderer
+  signal: AbortSignal; // aborted once every caller has cancelled (see AssetLoaderPlugin.load)
+  onProgress: (loaded: number, total: number) => void; // bytes of this file, when known
+}
+
+/**
+ * Loader for one asset kind
+ * Caching, deduplication, retries, progress and errors are handled by AssetLoader;
+ * a plugin only fetches/decodes, sizes and disposes its results.
+ */
+export interface AssetLoaderPlugin<K extends AssetKind = AssetKind> {
+  readonly kind: K;
+  /**
+   * File extensions resolved to this kind, lowercase and without the leading dot
+   */
+  readonly extensions: readonly string[];
+
+  /**
+   * Fetch and decode one asset
+   * AssetLoader downloads the file first (abortably) and serves it through `manager`, so
+   * load through three.js loaders built on `manager`; pass `signal` to any other requests.
+   */
+  load(url: string, context: AssetLoadContext): Promise<AssetTypeMap[K]>;
+
+  /**
+   * Estimated GPU bytes (0 for CPU-only data)
+   */
+  estimateBytes(asset: AssetTypeMap[K]): number;
+
+  /**
+   * The part of estimateBytes held in textures, counted against the texture budget
+   * Omit it when the asset is all texture (or nothing on the GPU).
+   */
+  estimateTextureBytes?(asset: AssetTypeMap[K]): number;
+
+  /**
+   * Free the asset once it leaves the cache
+   */
+  dispose(asset: AssetTypeMap[K]): void;
+}
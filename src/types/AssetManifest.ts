@@ -0,0 +1,38 @@
+/**
+ * AssetManifest.ts
+ * Declarative per-scene asset lists used for grouped, byte-weighted loading
+ * Constitution Principle II: Performance (<3s load, predictable progress)
+ */
+
+import type { AssetKind } from './AssetLoaderPlugin';
+
+/**
+ * Single asset with its expected download size
+ */
+export interface ManifestAsset {
+  url: string;
+  bytes: number; // expected transfer size, used to weight progress
+  version?: string; // offline cache version; defaults to the content version (Metadata.version)
+}
+
+/**
+ * Optional asset of any registered kind (environment map, audio, font...);
+ * a failure is reported but does not fail the group
+ */
+export interface ManifestExtra extends ManifestAsset {
+  kind: AssetKind;
+}
+
+/**
+ * Assets needed by one scene (or any other loading group)
+ */
+export interface AssetManifestGroup {
+  models?: ManifestAsset[];
+  textures?: ManifestAsset[];
+  extras?: ManifestExtra[];
+}
+
+/**
+ * Groups keyed by id, usually the Scene id
+ */
+export type AssetManifest = Record<string, AssetManifestGroup>;
@@ -0,0 +1,36 @@
+/**
+ * CameraConstraints.ts
+ * Per-scene limits on where the camera may go
+ * Constitution Principle III: Stability (the camera never leaves the set or clips through it)
+ */
+
+import type * as THREE from 'three';
+
+/**
+ * Layer that marks collider meshes unless a scene picks another
+ * Meshes only on this layer are raycast but never rendered by the (layer 0) camera.
+ */
+export const DEFAULT_COLLIDER_LAYER = 1;
+
+export interface CameraConstraints {
+  /**
+   * World-space volume the camera position is clamped to
+   */
+  bounds?: THREE.Box3 | THREE.Sphere;
+
+  /**
+   * Root searched for colliders, usually the scene itself
+   * Use simplified stand-ins (boxes, low-poly hulls) rather than render meshes.
+   */
+  colliders?: THREE.Object3D;
+
+  /**
+   * Layer a mesh must be enabled on to count as a collider (default: DEFAULT_COLLIDER_LAYER)
+   */
+  collisionLayer?: number;
+
+  /**
+   * Closest the camera may get to a collider, in world units (default: 0.3)
+   */
+  minDistance?: number;
+}
@@ -0,0 +1,66 @@
+/**
+ * Content.ts
+ * Type definitions for portfolio content (see specs/.../contracts/api-contracts.md)
+ * Constitution Principle III: Stability (content is validated before use)
+ */
+
+/**
+ * Section categories
+ */
+export type SectionType = 'landing' | 'content' | 'projects' | 'contact';
+
+/**
+ * Plain 3D vector as stored in JSON
+ */
+export interface Vector3Like {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Top-level portfolio content
+ */
+export interface PortfolioData {
+  sections: Section[];
+  metadata: Metadata;
+}
+
+/**
+ * Navigable area of the portfolio, mapped 1:1 to a Scene by id
+ */
+export interface Section {
+  id: string;
+  type: SectionType;
+  title: string;
+  subtitle?: string;
+  cameraPosition: Vector3Like;
+  cameraTarget: Vector3Like;
+  content?: string; // Markdown
+  projects?: Project[];
+  backgroundModelUrl?: string;
+}
+
+/**
+ * Individual portfolio project
+ */
+export interface Project {
+  id: string;
+  title: string;
+  description: string;
+  tags: string[];
+  thumbnailUrl: string;
+  modelUrl?: string;
+  externalUrl?: string;
+  featured: boolean;
+  createdDate: string; // ISO 8601
+}
+
+/**
+ * Versioning and authorship information
+ */
+export interface Metadata {
+  lastUpdated: string; // ISO 8601
+  version: string; // semver
+  author: string;
+}
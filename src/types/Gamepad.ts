@@ -0,0 +1,75 @@
+/**
+ * Gamepad.ts
+ * Normalized controller state read by InputHandler
+ * Constitution Principle V: Accessibility & Input Gracefulness (controllers on kiosks)
+ */
+
+/**
+ * Controller buttons, named after the Xbox layout
+ */
+export type GamepadButtonName =
+  | 'a' // bottom face button (Cross)
+  | 'b' // right face button (Circle)
+  | 'x' // left face button (Square)
+  | 'y' // top face button (Triangle)
+  | 'leftBumper'
+  | 'rightBumper'
+  | 'leftTrigger'
+  | 'rightTrigger'
+  | 'select' // Back / Share
+  | 'start' // Start / Options
+  | 'leftStick' // stick click
+  | 'rightStick'
+  | 'dpadUp'
+  | 'dpadDown'
+  | 'dpadLeft'
+  | 'dpadRight'
+  | 'home';
+
+/**
+ * In W3C standard mapping order, so a name's index is its standard button index
+ */
+export const GAMEPAD_BUTTONS: readonly GamepadButtonName[] = [
+  'a',
+  'b',
+  'x',
+  'y',
+  'leftBumper',
+  'rightBumper',
+  'leftTrigger',
+  'rightTrigger',
+  'select',
+  'start',
+  'leftStick',
+  'rightStick',
+  'dpadUp',
+  'dpadDown',
+  'dpadLeft',
+  'dpadRight',
+  'home',
+];
+
+/**
+ * Stick deflection after the dead zone, -1..1 per axis; y is positive up (like NDC)
+ */
+export interface StickState {
+  x: number;
+  y: number;
+}
+
+export interface GamepadInputState {
+  index: number; // Gamepad.index, stable while connected
+  id: string; // browser-reported controller name
+  standard: boolean; // false when buttons were remapped on a best-effort basis
+  leftStick: StickState;
+  rightStick: StickState;
+  leftTrigger: number; // 0..1
+  rightTrigger: number; // 0..1
+  buttons: boolean[]; // pressed, by standard index (see GAMEPAD_BUTTONS)
+  timestamp: number; // Gamepad.timestamp of the last change
+}
+
+export interface GamepadOptions {
+  deadZone?: number; // radial stick dead zone, 0..1 (default: 0.15)
+  triggerDeadZone?: number; // trigger travel ignored, 0..1 (default: 0.05)
+}
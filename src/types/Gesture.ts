@@ -0,0 +1,50 @@
+/**
+ * Gesture.ts
+ * Touch gesture events, per-frame state and recognition thresholds
+ * Constitution Principle V: Accessibility & Input Gracefulness (touch is a first-class input)
+ */
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * Continuous gestures report start, then change every move, then end
+ */
+export type GesturePhase = 'start' | 'change' | 'end';
+
+/**
+ * Recognized gesture; coordinates are client pixels
+ */
+export type GestureEvent =
+  | { type: 'tap' | 'doubleTap' | 'longPress'; x: number; y: number }
+  | { type: 'swipe'; direction: SwipeDirection; velocity: number; x: number; y: number } // px/s
+  | { type: 'pinch'; phase: GesturePhase; scale: number; delta: number; x: number; y: number } // scale since start, factor since last event
+  | { type: 'pan'; phase: GesturePhase; deltaX: number; deltaY: number; x: number; y: number } // two-finger centre movement
+  | { type: 'rotate'; phase: GesturePhase; rotation: number; delta: number; x: number; y: number }; // radians, clockwise on screen
+
+/**
+ * Gestures accumulated over one frame
+ */
+export interface GestureFrameState {
+  pointers: number; // tracked touch/pen contacts
+  pinching: boolean;
+  scaleDelta: number; // pinch factor this frame (1 = none)
+  panning: boolean;
+  panDeltaX: number; // two-finger pan this frame, pixels
+  panDeltaY: number;
+  rotating: boolean;
+  rotationDelta: number; // radians this frame
+  events: GestureEvent[]; // everything recognized this frame, in order
+}
+
+export interface GestureThresholds {
+  tapMaxDistance?: number; // px a tap may wander (default: 10)
+  tapMaxDuration?: number; // ms (default: 300)
+  doubleTapInterval?: number; // ms between taps (default: 300)
+  doubleTapMaxDistance?: number; // px between taps (default: 30)
+  longPressDuration?: number; // ms (default: 500)
+  swipeMinDistance?: number; // px (default: 50)
+  swipeMinVelocity?: number; // px/s (default: 300)
+  pinchMinScale?: number; // relative change before a pinch starts (default: 0.05)
+  panMinDistance?: number; // px of centre movement before a pan starts (default: 10)
+  rotateMinAngle?: number; // radians before a rotation starts (default: 0.1)
+}
@@ -0,0 +1,64 @@
+/**
+ * InputActions.ts
+ * Named input actions and the physical inputs they can be bound to
+ * Constitution Principle V: Accessibility & Input Gracefulness (every action is rebindable)
+ */
+
+/**
+ * Actions the UI and scenes react to, independent of device
+ */
+export type InputAction = 'nextSection' | 'prevSection' | 'select' | 'back' | 'toggleOverlay';
+
+export const INPUT_ACTIONS: readonly InputAction[] = [
+  'nextSection',
+  'prevSection',
+  'select',
+  'back',
+  'toggleOverlay',
+];
+
+/**
+ * Discrete touch gestures recognized by InputHandler (see GestureRecognizer)
+ */
+export type GestureType =
+  'swipeLeft' | 'swipeRight' | 'swipeUp' | 'swipeDown' | 'tap' | 'doubleTap' | 'longPress';
+
+export const GESTURE_TYPES: readonly GestureType[] = [
+  'swipeLeft',
+  'swipeRight',
+  'swipeUp',
+  'swipeDown',
+  'tap',
+  'doubleTap',
+  'longPress',
+];
+
+/**
+ * One physical input
+ * Wheel notches and gestures are instantaneous: they press an action for a single frame.
+ */
+export type InputBinding =
+  | { device: 'key'; key: string } // KeyboardEvent.key, lower case (' ' for space)
+  | { device: 'pointer'; button: number } // PointerEvent.button: 0 primary, 1 middle, 2 secondary
+  | { device: 'wheel'; direction: 'up' | 'down' }
+  | { device: 'gesture'; gesture: GestureType }
+  | { device: 'gamepad'; button: number }; // standard mapping index, e.g. 0 = A / Cross
+
+export type ActionBindings = Record<InputAction, InputBinding[]>;
+
+/**
+ * Per-frame state of an action
+ */
+export interface ActionState {
+  pressed: boolean; // became active this frame
+  held: boolean; // active this frame
+  released: boolean; // stopped being active this frame
+}
+
+/**
+ * The same input bound to more than one action
+ */
+export interface BindingConflict {
+  binding: InputBinding;
+  actions: InputAction[];
+}
@@ -0,0 +1,52 @@
+/**
+ * InputRecording.ts
+ * Serializable input stream captured from InputHandler, replayed frame by frame
+ * Constitution Principle III: Stability (bugs reproduce from a recording, not a description)
+ */
+
+import type { GamepadInputState } from './Gamepad';
+
+/**
+ * One input as InputHandler saw it
+ * Pointer positions are NDC, so a replay lands on the same spot at any canvas size
+ * (pixel-based gesture thresholds still scale with the canvas).
+ */
+export type RecordedInput = (
+  | {
+      type: 'pointermove' | 'pointerdown' | 'pointerup' | 'pointercancel' | 'pointerleave';
+      pointerId: number;
+      pointerType: string; // 'mouse' | 'pen' | 'touch'
+      isPrimary: boolean;
+      button: number;
+      buttons: number;
+      x: number; // NDC (-1 to 1)
+      y: number;
+      movementX?: number; // CSS px since the previous move, the only motion under pointer lock
+      movementY?: number;
+    }
+  | { type: 'keydown'; key: string; repeat: boolean }
+  | { type: 'keyup'; key: string }
+  | { type: 'wheel'; deltaY: number } // pixels, already normalized (see WheelNormalizer)
+  | { type: 'gamepads'; gamepads: GamepadInputState[] } // polled state, recorded when it changes
+) & {
+  time: number; // ms since the recording started (absolute while live)
+};
+
+/**
+ * Pointer inputs, as passed to InputHandler.setOnPointerInput
+ */
+export type PointerInput = Extract<RecordedInput, { pointerId: number }>;
+
+/**
+ * Inputs handled during one frame, before that frame's InputHandler.update
+ */
+export interface RecordedFrame {
+  delta: number; // seconds, as passed to scene update calls
+  inputs: RecordedInput[];
+}
+
+export interface InputRecording {
+  version: 1;
+  viewport: { width: number; height: number }; // canvas size in CSS pixels
+  frames: RecordedFrame[];
+}
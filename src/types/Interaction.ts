@@ -0,0 +1,93 @@
+/**
+ * Interaction.ts
+ * Pointer events delivered to registered 3D objects
+ * Constitution Principle V: Accessibility & Input Gracefulness (3D elements behave like buttons)
+ */
+
+import type * as THREE from 'three';
+
+export type InteractionEventType =
+  | 'pointerenter'
+  | 'pointerleave'
+  | 'pointerdown'
+  | 'pointerup'
+  | 'click'
+  | 'dragstart'
+  | 'drag'
+  | 'dragend';
+
+export interface InteractionEvent {
+  type: InteractionEventType;
+
+  /**
+   * Registered object the handler belongs to (currentTarget in DOM terms)
+   */
+  object: THREE.Object3D;
+
+  /**
+   * Mesh the ray actually hit, possibly a descendant of `object`
+   */
+  target: THREE.Object3D | null;
+
+  /**
+   * World-space hit point; while dragging, the point on the plane the drag started on
+   * Null for pointerleave and for drags whose ray misses the plane.
+   */
+  point: THREE.Vector3 | null;
+
+  /**
+   * Full intersection with face, uv and distance, when the ray hit the object this frame
+   */
+  intersection: THREE.Intersection | null;
+
+  /**
+   * Pointer position in normalized device coordinates (-1 to 1)
+   */
+  pointer: THREE.Vector2;
+
+  /**
+   * DOM event that caused this one; null for events found by the per-frame raycast
+   * and for keyboard activation (which also has no intersection)
+   */
+  nativeEvent: PointerEvent | null;
+
+  /**
+   * Stop the event from reaching registered ancestors of `object`
+   */
+  stopPropagation(): void;
+}
+
+export type InteractionHandlers = Partial<
+  Record<InteractionEventType, (event: InteractionEvent) => void>
+>;
+
+/**
+ * How an object appears to keyboard and screen reader users (see AccessibleMirror)
+ */
+export interface AccessibleOptions {
+  label: string; // accessible name, e.g. the project title
+  description?: string; // read after the name, e.g. "Opens the project details"
+  role?: 'button' | 'link'; // default: 'button'
+}
+
+export interface InteractiveOptions {
+  /**
+   * CSS cursor while hovered (default: 'pointer'; draggable objects use 'grab')
+   */
+  cursor?: string;
+
+  /**
+   * Emit dragstart/drag/dragend when pressed and moved (default: true if a drag handler is set)
+   */
+  draggable?: boolean;
+
+  /**
+   * Build a BVH for large meshes under the object (default: true)
+   */
+  accelerate?: boolean;
+
+  /**
+   * Mirror the object into the focusable DOM list; omit for decorative objects
+   */
+  accessible?: AccessibleOptions;
+}
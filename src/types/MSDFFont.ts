@@ -0,0 +1,49 @@
+/**
+ * MSDFFont.ts
+ * Type definitions for multi-channel signed distance field fonts (BMFont JSON layout,
+ * as produced by msdf-bmfont-xml / msdf-atlas-gen)
+ */
+
+import type * as THREE from 'three';
+
+/**
+ * Glyph placement in an atlas page
+ */
+export interface MSDFGlyph {
+  id: number; // Unicode code point
+  char: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  xoffset: number;
+  yoffset: number;
+  xadvance: number;
+  page: number;
+}
+
+export interface MSDFKerning {
+  first: number;
+  second: number;
+  amount: number;
+}
+
+/**
+ * Font description file
+ */
+export interface MSDFFontData {
+  pages: string[]; // atlas image paths, relative to the font file
+  chars: MSDFGlyph[];
+  info: { face: string; size: number };
+  common: { lineHeight: number; base: number; scaleW: number; scaleH: number };
+  distanceField?: { fieldType: 'msdf' | 'sdf' | 'psdf'; distanceRange: number };
+  kernings?: MSDFKerning[];
+}
+
+/**
+ * Loaded font: description plus one texture per atlas page
+ */
+export interface MSDFFont {
+  data: MSDFFontData;
+  pages: THREE.Texture[];
+}
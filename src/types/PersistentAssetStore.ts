@@ -0,0 +1,33 @@
+/**
+ * PersistentAssetStore.ts
+ * Storage backend contract for the offline asset cache
+ * Constitution Principle III: Stability (assets stay available when the network drops)
+ */
+
+/**
+ * Metadata stored alongside each asset
+ */
+export interface PersistentEntryInfo {
+  url: string;
+  version: string; // content version the bytes belong to
+  pinned: boolean; // version came from the asset itself (manifest), not the content version
+  bytes: number;
+  storedAt: number; // epoch ms
+}
+
+export interface PersistentEntry {
+  info: PersistentEntryInfo;
+  blob: Blob;
+}
+
+/**
+ * Durable key-value storage of asset bytes, one entry per URL
+ * Implementations must not throw for missing entries.
+ */
+export interface PersistentAssetStore {
+  get(url: string): Promise<PersistentEntry | null>;
+  put(entry: PersistentEntry): Promise<void>;
+  delete(url: string): Promise<boolean>;
+  list(): Promise<PersistentEntryInfo[]>;
+  clear(): Promise<void>;
+}
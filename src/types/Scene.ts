@@ -5,6 +5,7 @@
  */
 
 import type * as THREE from 'three';
+import type { CameraConstraints } from './CameraConstraints';
 
 /**
  * Scene interface with lifecycle methods
@@ -23,19 +24,24 @@ export interface Scene {
 
   /**
    * Initialize scene resources (async)
-   * - Load 3D models
+   * - Load 3D models (AssetLoader.acquireModel/acquireTexture with this scene's id as owner)
+   *   or the scene's manifest group (AssetLoader.loadManifestGroup with ASSET_MANIFEST)
    * - Create geometries and materials
    * - Set up initial state
    * 
    * This method is called once when the scene is first created
+   * 
+   * @param signal Aborted if the user navigates away before init completes;
+   *               pass it to AssetLoader so pending downloads are cancelled
    */
-  init(): Promise<void>;
+  init(signal?: AbortSignal): Promise<void>;
 
   /**
    * Mount scene to renderer
    * - Add objects to scene
    * - Start animations
    * - Bind event listeners
+   * - Register interactive objects (InteractionManager.getInstance().register)
    * 
    * This method is called when the scene becomes active
    */
@@ -55,9 +61,13 @@ export interface Scene {
   /**
    * Dispose scene resources
    * - Remove event listeners
+   * - Unregister interactive objects
    * - Dispose geometries and materials
    * - Clear object references
    * 
+   * Shared assets acquired under this scene's id are released by the SceneManager
+   * afterwards; do not dispose them here.
+   * 
    * This method is called when transitioning away from the scene
    */
   dispose(): void;
@@ -78,4 +88,22 @@ export interface Scene {
    * @param visible Whether the tab is visible
    */
   onVisibilityChange?(visible: boolean): void;
+
+  /**
+   * Optional: Limits on where the camera may go while this scene is active
+   * Read when the scene becomes current, before the camera moves to it.
+   * Mark collider meshes with `mesh.layers.set(DEFAULT_COLLIDER_LAYER)`.
+   *
+   * @returns Bounds and colliders, or null for a free camera
+   */
+  getCameraConstraints?(): CameraConstraints | null;
+
+  /**
+   * Optional: Object the camera frames for an item named in the route, e.g. the marker
+   * of /projects/project-2. Called after mount().
+   *
+   * @param id Item id (Route.projectId)
+   * @returns The object, or null to show the whole scene
+   */
+  getFocusObject?(id: string): THREE.Object3D | null;
 }
@@ -0,0 +1,37 @@
+/**
+ * ShotSequence.ts
+ * Authored camera shot sequences, stored as JSON next to the portfolio content
+ * Constitution Principle II: Smooth Performance & Motion Quality (choreographed camera moves)
+ */
+
+import type { Vector3Like } from './Content';
+
+/**
+ * One camera move, tweened from wherever the previous shot (or the camera) ended
+ */
+export interface CameraShot {
+  position: Vector3Like;
+  target: Vector3Like;
+  fov?: number; // vertical field of view in degrees (default: unchanged)
+  roll?: number; // degrees around the view axis, positive is counter-clockwise (default: unchanged)
+  duration: number; // seconds
+  ease?: string; // GSAP easing (default: 'power2.inOut')
+  hold?: number; // seconds to stay on the final frame before the next shot (default: 0)
+  onStart?: string; // name of a callback passed to playSequence, run when the shot starts
+  onComplete?: string; // name of a callback run when the move ends (before the hold)
+}
+
+/**
+ * Named list of shots played back to back
+ */
+export interface ShotSequence {
+  id: string;
+  shots: CameraShot[];
+}
+
+/**
+ * Top-level shape of the shot sequence JSON file
+ */
+export interface ShotSequenceLibrary {
+  sequences: ShotSequence[];
+}
@@ -0,0 +1,26 @@
+/**
+ * Wheel.ts
+ * Normalized wheel and trackpad scrolling, and discrete scroll intents
+ * Constitution Principle V: Accessibility & Input Gracefulness (every device scrolls alike)
+ */
+
+export type ScrollIntent = 'next' | 'previous';
+
+/**
+ * One wheel event after normalization (see WheelNormalizer.process)
+ */
+export interface WheelSample {
+  delta: number; // pixels, positive = down
+  inertial: boolean; // part of the decaying tail a trackpad sends after the fingers lift
+  intent: ScrollIntent | null; // snap mode: the event that completed a section step
+}
+
+export interface WheelOptions {
+  lineHeight?: number; // px per line for DOM_DELTA_LINE events (default: 16)
+  maxDelta?: number; // px one event may scroll, so accelerated wheels cannot jump (default: 200)
+  gestureTimeout?: number; // ms of silence that ends a scroll gesture (default: 200)
+  inertiaEvents?: number; // shrinking events in a row that make a tail inertial (default: 3)
+  snap?: boolean; // gestures become next/previous intents instead of scrolling (default: false)
+  snapThreshold?: number; // px of intentional scrolling per intent (default: 40)
+  snapCooldown?: number; // ms after an intent before the next one (default: 500)
+}
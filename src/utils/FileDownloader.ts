@@ -0,0 +1,40 @@
+/**
+ * FileDownloader.ts
+ * Abortable file downloads with byte progress, shared by AssetLoader and its offline layer
+ * Constitution Principle II: Performance (cancelled loads stop using bandwidth)
+ */
+
+export class FileDownloader {
+  /**
+   * Download a file, reporting progress while the body streams in
+   * Rejects with the fetch AbortError when the signal aborts, and with a TypeError when
+   * the request fails before a response (offline, CORS).
+   */
+  static async download(
+    url: string,
+    signal?: AbortSignal,
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<Blob> {
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: HTTP ${response.status}`);
+    }
+
+    if (!response.body || !onProgress) return response.blob();
+
+    const total = Number(response.headers.get('Content-Length') ?? 0);
+    const reader = response.body.getReader();
+    const chunks: BlobPart[] = [];
+    let loaded = 0;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      loaded += value.byteLength;
+      onProgress(loaded, total);
+    }
+
+    return new Blob(chunks, { type: response.headers.get('Content-Type') ?? '' });
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * InputRecordingCodec.ts
+ * JSON for input recordings (bug reports, demo reels)
+ * Constitution Principle III: Stability (untrusted recordings are validated first)
+ */
+
+import type { InputRecording, RecordedFrame, RecordedInput } from '../types/InputRecording';
+import type { GamepadInputState } from '../types/Gamepad';
+
+const POINTER_TYPES = ['pointermove', 'pointerdown', 'pointerup', 'pointercancel', 'pointerleave'];
+
+export class InputRecordingCodec {
+  /**
+   * Encode a recording as JSON
+   */
+  static encode(recording: InputRecording): string {
+    return JSON.stringify(recording);
+  }
+
+  /**
+   * Decode a recording, or null (with a warning) if the JSON is malformed
+   */
+  static decode(text: string): InputRecording | null {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      console.warn('Input recording is not valid JSON:', error);
+      return null;
+    }
+
+    if (!isObject(value) || value.version !== 1) {
+      console.warn('Input recording has an unknown format version.');
+      return null;
+    }
+
+    const viewport = value.viewport;
+    if (!isObject(viewport) || !isNumber(viewport.width) || !isNumber(viewport.height)) {
+      console.warn('Input recording has no viewport size.');
+      return null;
+    }
+
+    const frames = value.frames;
+    if (!Array.isArray(frames)) {
+      console.warn('Input recording has no frames.');
+      return null;
+    }
+    const index = frames.findIndex((frame) => !isFrame(frame));
+    if (index !== -1) {
+      console.warn(`Input recording frame ${index} is malformed.`);
+      return null;
+    }
+
+    return {
+      version: 1,
+      viewport: { width: viewport.width, height: viewport.height },
+      frames: frames as RecordedFrame[],
+    };
+  }
+}
+
+/**
+ * Check for a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check for a finite number
+ */
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Validate one frame and its inputs
+ */
+function isFrame(value: unknown): value is RecordedFrame {
+  return (
+    isObject(value) &&
+    isNumber(value.delta) &&
+    value.delta >= 0 &&
+    Array.isArray(value.inputs) &&
+    value.inputs.every(isInput)
+  );
+}
+
+/**
+ * Validate one input against its type
+ */
+function isInput(value: unknown): value is RecordedInput {
+  if (!isObject(value) || !isNumber(value.time)) return false;
+
+  switch (value.type) {
+    case 'keydown':
+      return typeof value.key === 'string' && typeof value.repeat === 'boolean';
+    case 'keyup':
+      return typeof value.key === 'string';
+    case 'wheel':
+      return isNumber(value.deltaY);
+    case 'gamepads':
+      return Array.isArray(value.gamepads) && value.gamepads.every(isGamepad);
+    default:
+      return (
+        POINTER_TYPES.includes(value.type as string) &&
+        isNumber(value.pointerId) &&
+        typeof value.pointerType === 'string' &&
+        typeof value.isPrimary === 'boolean' &&
+        isNumber(value.button) &&
+        isNumber(value.buttons) &&
+        isNumber(value.x) &&
+        isNumber(value.y) &&
+        (value.movementX === undefined || isNumber(value.movementX)) &&
+        (value.movementY === undefined || isNumber(value.movementY))
+      );
+  }
+}
+
+/**
+ * Validate a recorded controller state
+ */
+function isGamepad(value: unknown): value is GamepadInputState {
+  const isStick = (stick: unknown): boolean =>
+    isObject(stick) && isNumber(stick.x) && isNumber(stick.y);
+
+  return (
+    isObject(value) &&
+    isNumber(value.index) &&
+    typeof value.id === 'string' &&
+    typeof value.standard === 'boolean' &&
+    isStick(value.leftStick) &&
+    isStick(value.rightStick) &&
+    isNumber(value.leftTrigger) &&
+    isNumber(value.rightTrigger) &&
+    Array.isArray(value.buttons) &&
+    value.buttons.every((button) => typeof button === 'boolean') &&
+    isNumber(value.timestamp)
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * MemoryEstimator.ts
+ * Estimate GPU memory used by geometries, textures and object hierarchies
+ * Constitution Principle II: Smooth Performance (64 MB texture budget)
+ */
+
+import * as THREE from 'three';
+
+export interface MemoryEstimate {
+  geometryBytes: number;
+  textureBytes: number;
+  totalBytes: number;
+}
+
+export class MemoryEstimator {
+  /**
+   * Estimate bytes uploaded for a geometry (vertex attributes, morph targets, index)
+   * Interleaved buffers shared by several attributes are counted once.
+   */
+  static estimateGeometryBytes(
+    geometry: THREE.BufferGeometry | null | undefined,
+    seenBuffers: Set<ArrayBufferLike> = new Set()
+  ): number {
+    if (!geometry) return 0;
+
+    let bytes = 0;
+    const addAttribute = (
+      attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute | null
+    ): void => {
+      if (!attribute) return;
+
+      const array =
+        'isInterleavedBufferAttribute' in attribute && attribute.isInterleavedBufferAttribute
+          ? attribute.data.array
+          : (attribute as THREE.BufferAttribute).array;
+
+      if (seenBuffers.has(array.buffer)) return;
+      seenBuffers.add(array.buffer);
+      bytes += array.byteLength;
+    };
+
+    Object.values(geometry.attributes).forEach(addAttribute);
+    Object.values(geometry.morphAttributes).forEach((attributes) =>
+      attributes.forEach(addAttribute)
+    );
+    addAttribute(geometry.index);
+
+    return bytes;
+  }
+
+  /**
+   * Estimate bytes uploaded for a texture from its dimensions, format, type and mipmaps
+   */
+  static estimateTextureBytes(texture: THREE.Texture | null | undefined): number {
+    if (!texture) return 0;
+
+    const format = texture.format;
+    const type = texture.type;
+    const faces = 'isCubeTexture' in texture && texture.isCubeTexture ? 6 : 1;
+
+    // Explicit mip chain (compressed textures, KTX2, manual mipmaps)
+    const mipmaps = texture.mipmaps as Array<{ width?: number; height?: number }> | undefined;
+    if (mipmaps && mipmaps.length > 0) {
+      return (
+        faces *
+        mipmaps.reduce(
+          (sum, level) => sum + this.byteLength(level.width ?? 0, level.height ?? 0, format, type),
+          0
+        )
+      );
+    }
+
+    const { width, height, depth } = this.getImageSize(texture);
+    if (width === 0 || height === 0) return 0;
+
+    let bytes = this.byteLength(width, height, format, type) * depth * faces;
+
+    // Generated mip chain adds a third of the base level
+    if (texture.generateMipmaps && this.usesMipmaps(texture.minFilter)) {
+      bytes = Math.ceil((bytes * 4) / 3);
+    }
+
+    return bytes;
+  }
+
+  /**
+   * Estimate bytes for an object hierarchy, counting shared geometries and textures once
+   */
+  static estimateObject3DBytes(object: THREE.Object3D | null | undefined): MemoryEstimate {
+    const estimate: MemoryEstimate = { geometryBytes: 0, textureBytes: 0, totalBytes: 0 };
+    if (!object) return estimate;
+
+    const seenBuffers = new Set<ArrayBufferLike>();
+    const seenTextures = new Set<string>();
+
+    object.traverse((child) => {
+      if ('geometry' in child) {
+        estimate.geometryBytes += this.estimateGeometryBytes(
+          (child as THREE.Mesh).geometry,
+          seenBuffers
+        );
+      }
+
+      if ('material' in child) {
+        const material = (child as THREE.Mesh).material;
+        const materials = Array.isArray(material) ? material : [material];
+
+        materials.forEach((mat) => {
+          if (!mat) return;
+          Object.values(mat).forEach((value: unknown) => {
+            if (value instanceof THREE.Texture && !seenTextures.has(value.uuid)) {
+              seenTextures.add(value.uuid);
+              estimate.textureBytes += this.estimateTextureBytes(value);
+            }
+          });
+        });
+      }
+    });
+
+    estimate.totalBytes = estimate.geometryBytes + estimate.textureBytes;
+    return estimate;
+  }
+
+  /**
+   * Convert bytes to megabytes
+   */
+  static toMB(bytes: number): number {
+    return bytes / (1024 * 1024);
+  }
+
+  /**
+   * Bytes for one level; unknown format/type combinations count as 0
+   */
+  private static byteLength(
+    width: number,
+    height: number,
+    format: THREE.PixelFormat | THREE.CompressedPixelFormat,
+    type: THREE.TextureDataType
+  ): number {
+    if (width === 0 || height === 0) return 0;
+
+    try {
+      return THREE.TextureUtils.getByteLength(width, height, format, type);
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Read dimensions from the texture source (image, bitmap, canvas, data or cube faces)
+   */
+  private static getImageSize(texture: THREE.Texture): {
+    width: number;
+    height: number;
+    depth: number;
+  } {
+    let image = texture.image as
+      | { width?: number; height?: number; depth?: number }
+      | Array<{ width?: number; height?: number }>
+      | null
+      | undefined;
+
+    if (Array.isArray(image)) image = image[0];
+    if (!image) return { width: 0, height: 0, depth: 1 };
+
+    const depth = 'depth' in image && typeof image.depth === 'number' ? image.depth : 1;
+    return { width: image.width ?? 0, height: image.height ?? 0, depth };
+  }
+
+  /**
+   * Whether a minification filter samples mip levels
+   */
+  private static usesMipmaps(filter: THREE.MinificationTextureFilter): boolean {
+    return filter !== THREE.NearestFilter && filter !== THREE.LinearFilter;
+  }
+}
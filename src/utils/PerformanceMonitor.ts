@@ -5,6 +5,7 @@
  */
 
 import type * as THREE from 'three';
+import { MemoryEstimator } from './MemoryEstimator';
 
 export interface PerformanceMetrics {
   currentFPS: number;
@@ -50,6 +51,9 @@ export class PerformanceMonitor {
   private warningThrottleTime: number = 5000; // Warn max once per 5 seconds
   private lastWarningTime: number = 0;
 
+  // Returns estimated texture bytes (e.g. AssetLoader.getMemoryUsage().textureBytes)
+  private memorySource: (() => number) | null = null;
+
   constructor(renderer: THREE.WebGLRenderer) {
     this.renderer = renderer;
   }
@@ -107,6 +111,14 @@ export class PerformanceMonitor {
     this.isLandingScene = isLanding;
   }
 
+  /**
+   * Set the source of byte-accurate memory estimates
+   * e.g. monitor.setMemorySource(() => AssetLoader.getInstance().getMemoryUsage().textureBytes)
+   */
+  setMemorySource(source: (() => number) | null): void {
+    this.memorySource = source;
+  }
+
   /**
    * Get current performance metrics without updating
    */
@@ -202,9 +214,14 @@ export class PerformanceMonitor {
   }
 
   /**
-   * Estimate memory usage in MB (rough approximation)
+   * Estimate memory usage in MB
+   * Uses the attached memory source; falls back to a rough per-resource approximation
    */
   private estimateMemoryUsage(): number {
+    if (this.memorySource) {
+      return MemoryEstimator.toMB(this.memorySource());
+    }
+
     const memory = (this.renderer?.info.memory as any) || {};
     const geometries = memory.geometries || 0;
     const textures = memory.textures || 0;
@@ -0,0 +1,47 @@
+/**
+ * PoseCodec.ts
+ * Compact, URL-safe strings for camera poses (share links, bookmarks)
+ * Constitution Principle III: Stability (untrusted poses are validated, never applied blindly)
+ */
+
+import * as THREE from 'three';
+import type { SceneCameraPose } from '../core/SceneManager';
+
+// Position then target, e.g. "-5_3_6_0_1_0"; underscores need no escaping in URLs
+const SEPARATOR = '_';
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+// Poses beyond this distance from the origin are treated as corrupt
+const MAX_COORDINATE = 10000;
+// Same minimum camera-to-target distance the content contract enforces
+const MIN_TARGET_DISTANCE = 0.1;
+
+export class PoseCodec {
+  /**
+   * Encode a pose as six numbers rounded to centimetres
+   */
+  static encode(pose: SceneCameraPose): string {
+    return [pose.position, pose.target]
+      .flatMap((vector) => [vector.x, vector.y, vector.z])
+      .map((value) => String(Math.round(value * 100) / 100 || 0))
+      .join(SEPARATOR);
+  }
+
+  /**
+   * Decode a pose, or null if the string is malformed or the pose unusable
+   */
+  static decode(text: string): SceneCameraPose | null {
+    const parts = text.trim().split(SEPARATOR);
+    if (parts.length !== 6 || !parts.every((part) => NUMBER_PATTERN.test(part))) return null;
+
+    const values = parts.map(Number);
+    if (!values.every((value) => Math.abs(value) <= MAX_COORDINATE)) return null;
+
+    const [px, py, pz, tx, ty, tz] = values as [number, number, number, number, number, number];
+    const position = new THREE.Vector3(px, py, pz);
+    const target = new THREE.Vector3(tx, ty, tz);
+    if (position.distanceTo(target) <= MIN_TARGET_DISTANCE) return null;
+
+    return { position, target };
+  }
+}
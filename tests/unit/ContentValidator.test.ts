@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { ContentLoader, ContentValidationError } from '@/core/ContentLoader';
+import portfolioData from '../../public/content/portfolio-data.json';
+
+type JsonObject = Record<string, unknown>;
+
+interface RawContent {
+  metadata: JsonObject;
+  sections: JsonObject[];
+}
+
+/**
+ * Fresh copy of the shipped content, safe to break
+ */
+function content(): RawContent {
+  return structuredClone(portfolioData);
+}
+
+function section(data: RawContent, index: number): JsonObject {
+  const found = data.sections[index];
+  if (!found) throw new Error(`No section ${index} in the fixture`);
+  return found;
+}
+
+// Projects of the fixture's projects section ($.sections[2])
+function project(data: RawContent, index: number): JsonObject {
+  const found = (section(data, 2).projects as JsonObject[])[index];
+  if (!found) throw new Error(`No project ${index} in the fixture`);
+  return found;
+}
+
+/**
+ * Paths of every issue validate() reports
+ */
+function issuePaths(data: unknown): string[] {
+  try {
+    ContentLoader.validate(data, 'test.json');
+  } catch (error) {
+    if (error instanceof ContentValidationError) return error.issues.map((issue) => issue.path);
+    throw error;
+  }
+  return [];
+}
+
+describe('ContentLoader.validate', () => {
+  it('accepts the shipped content and drops null optional fields', () => {
+    const data = ContentLoader.validate(content());
+
+    expect(data.sections[0]).not.toHaveProperty('content'); // null in the file
+    expect(data.sections.map(({ id }) => id)).toEqual(['landing', 'about', 'projects', 'contact']);
+  });
+
+  it('reports every issue with its JSON path', () => {
+    const data = content();
+    data.metadata.version = '1.0';
+    section(data, 1).type = 'gallery';
+    section(data, 3).cameraTarget = { x: 0, y: 'up', z: 0 };
+    project(data, 0).createdDate = '2025-13-45';
+
+    expect(issuePaths(data)).toEqual([
+      '$.metadata.version',
+      '$.sections[1].type',
+      '$.sections[2].projects[0].createdDate',
+      '$.sections[3].cameraTarget.y',
+    ]);
+  });
+
+  it('rejects duplicate ids', () => {
+    const data = content();
+    section(data, 1).id = 'projects';
+    project(data, 1).id = 'project-1';
+
+    expect(issuePaths(data)).toEqual(['$.sections[2].id', '$.sections[2].projects[1].id']);
+  });
+
+  it('requires exactly one landing section', () => {
+    const data = content();
+    data.sections.shift();
+
+    expect(issuePaths(data)).toEqual(['$.sections']);
+  });
+
+  it('requires projects in a projects section', () => {
+    const data = content();
+    section(data, 2).projects = null;
+
+    expect(issuePaths(data)).toEqual(['$.sections[2].projects']);
+  });
+
+  it('rejects a camera on top of its target', () => {
+    const data = content();
+    section(data, 0).cameraTarget = { ...(section(data, 0).cameraPosition as JsonObject) };
+
+    expect(issuePaths(data)).toEqual(['$.sections[0].cameraTarget']);
+  });
+
+  it('rejects non-objects', () => {
+    expect(issuePaths(null)).toEqual(['$']);
+    expect(issuePaths({ metadata: {}, sections: 'all' })).toContain('$.sections');
+  });
+});
@@ -0,0 +1,135 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InputHandler } from '@/core/InputHandler';
+import { ActionMap } from '@/core/ActionMap';
+
+interface PadInput {
+  axes?: number[];
+  pressed?: number[]; // standard button indices held down
+  mapping?: GamepadMappingType;
+  buttonCount?: number;
+}
+
+/**
+ * Minimal Gamepad as navigator.getGamepads() reports it
+ */
+function createPad({
+  axes = [0, 0, 0, 0],
+  pressed = [],
+  mapping = 'standard',
+  buttonCount = 17,
+}: PadInput): Gamepad {
+  const buttons = Array.from({ length: buttonCount }, (_, index) => ({
+    pressed: pressed.includes(index),
+    touched: pressed.includes(index),
+    value: pressed.includes(index) ? 1 : 0,
+  }));
+  return {
+    index: 0,
+    id: 'Test Controller',
+    connected: true,
+    mapping,
+    axes,
+    buttons,
+    timestamp: 0,
+  } as unknown as Gamepad;
+}
+
+describe('gamepad input', () => {
+  let pads: (Gamepad | null)[];
+  let input: InputHandler;
+
+  beforeEach(() => {
+    pads = [];
+    vi.stubGlobal('navigator', { ...navigator, getGamepads: () => pads });
+    input = new InputHandler(document.createElement('canvas'));
+  });
+
+  afterEach(() => {
+    input.dispose();
+    vi.unstubAllGlobals();
+  });
+
+  describe('dead zones', () => {
+    it('ignores stick deflection inside the dead zone', () => {
+      pads = [createPad({ axes: [0.1, -0.1, 0.05, 0] })];
+      input.update();
+
+      expect(input.getGamepadState()?.leftStick).toEqual({ x: 0, y: 0 });
+      expect(input.getGamepadState()?.rightStick).toEqual({ x: 0, y: 0 });
+    });
+
+    it('rescales deflection outside the dead zone and points y up', () => {
+      pads = [createPad({ axes: [0, -1, 0.575, 0] })];
+      input.update();
+
+      const state = input.getGamepadState();
+      expect(state?.leftStick.x).toBeCloseTo(0);
+      expect(state?.leftStick.y).toBeCloseTo(1);
+      // Halfway between the default 0.15 dead zone and full tilt
+      expect(state?.rightStick.x).toBeCloseTo(0.5);
+    });
+
+    it('follows setGamepadOptions', () => {
+      input.setGamepadOptions({ deadZone: 0.5 });
+      pads = [createPad({ axes: [0.4, 0, 0, 0] })];
+      input.update();
+
+      expect(input.getGamepadState()?.leftStick.x).toBe(0);
+    });
+  });
+
+  describe('D-pad actions', () => {
+    let actions: ActionMap;
+
+    beforeEach(() => {
+      actions = new ActionMap(input, { storage: null });
+    });
+
+    /**
+     * Poll the pads and sample actions, like one frame of main's loop
+     */
+    function frame(pad: PadInput): void {
+      pads = [createPad(pad)];
+      input.update();
+      actions.update();
+    }
+
+    it('maps D-pad down and right to nextSection', () => {
+      frame({ pressed: [13] });
+      expect(actions.isPressed('nextSection')).toBe(true);
+
+      frame({});
+      expect(actions.isReleased('nextSection')).toBe(true);
+
+      frame({ pressed: [15] });
+      expect(actions.isPressed('nextSection')).toBe(true);
+    });
+
+    it('maps D-pad up and left to prevSection', () => {
+      frame({ pressed: [12] });
+      expect(actions.isPressed('prevSection')).toBe(true);
+
+      frame({});
+      frame({ pressed: [14] });
+      expect(actions.isPressed('prevSection')).toBe(true);
+      expect(actions.isPressed('nextSection')).toBe(false);
+    });
+
+    it('reports a held D-pad once', () => {
+      frame({ pressed: [13] });
+      frame({ pressed: [13] });
+
+      expect(actions.isPressed('nextSection')).toBe(false);
+      expect(actions.isHeld('nextSection')).toBe(true);
+    });
+
+    it('reads a D-pad reported as a hat on axes 6/7 by non-standard pads', () => {
+      frame({ mapping: '', buttonCount: 12, axes: [0, 0, 0, 0, 0, 0, 0, 1] });
+      expect(actions.isPressed('nextSection')).toBe(true);
+
+      frame({ mapping: '', buttonCount: 12, axes: [0, 0, 0, 0, 0, 0, -1, 0] });
+      expect(actions.isPressed('prevSection')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PersistentAssetCache } from '@/core/PersistentAssetCache';
+import { MemoryAssetStore } from '@/core/stores/MemoryAssetStore';
+import type { AssetManifest } from '@/types/AssetManifest';
+
+const fetchMock = vi.fn((url: string) => Promise.resolve(new Response(`bytes of ${url}`)));
+
+/**
+ * Store an entry as if it had been downloaded under `version`
+ */
+async function seed(
+  store: MemoryAssetStore,
+  url: string,
+  version: string,
+  pinned: boolean = false
+): Promise<void> {
+  const blob = new Blob([`stored ${url}`]);
+  await store.put({ info: { url, version, pinned, bytes: blob.size, storedAt: 0 }, blob });
+}
+
+async function storedUrls(store: MemoryAssetStore): Promise<string[]> {
+  return (await store.list()).map((info) => info.url).sort();
+}
+
+describe('PersistentAssetCache', () => {
+  let store: MemoryAssetStore;
+  let cache: PersistentAssetCache;
+
+  beforeEach(() => {
+    fetchMock.mockClear();
+    vi.stubGlobal('fetch', fetchMock);
+    store = new MemoryAssetStore();
+    cache = new PersistentAssetCache(store, 'v1');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('fetch', () => {
+    it('downloads once, then serves the stored copy', async () => {
+      const first = await cache.fetch('/models/robot.glb');
+      const second = await cache.fetch('/models/robot.glb');
+
+      expect(first?.fromStore).toBe(false);
+      expect(second?.fromStore).toBe(true);
+      expect(await second?.blob.text()).toBe('bytes of /models/robot.glb');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('re-downloads entries stored under another content version', async () => {
+      await seed(store, '/models/robot.glb', 'v0');
+
+      const result = await cache.fetch('/models/robot.glb');
+
+      expect(result?.fromStore).toBe(false);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect((await store.get('/models/robot.glb'))?.info.version).toBe('v1');
+    });
+
+    it('pins entries fetched with their own version', async () => {
+      await cache.fetch('/textures/sky.ktx2', { version: 'sky-2' });
+
+      const info = (await store.get('/textures/sky.ktx2'))?.info;
+      expect(info).toMatchObject({ version: 'sky-2', pinned: true });
+    });
+
+    it('falls back to an outdated copy when offline', async () => {
+      await seed(store, '/models/robot.glb', 'v0');
+      fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+      const result = await cache.fetch('/models/robot.glb');
+
+      expect(result?.fromStore).toBe(true);
+      expect(await result?.blob.text()).toBe('stored /models/robot.glb');
+    });
+  });
+
+  describe('purgeStale', () => {
+    it('deletes unpinned entries from older content versions', async () => {
+      await seed(store, '/old.glb', 'v0');
+      await seed(store, '/current.glb', 'v1');
+
+      expect(await cache.purgeStale()).toBe(1);
+      expect(await storedUrls(store)).toEqual(['/current.glb']);
+    });
+
+    it('purges on setVersion', async () => {
+      await seed(store, '/a.glb', 'v1');
+
+      expect(await cache.setVersion('v2')).toBe(1);
+      expect(await storedUrls(store)).toEqual([]);
+    });
+
+    it('keeps pinned entries until a manifest is set', async () => {
+      await seed(store, '/sky.ktx2', 'sky-1', true);
+
+      expect(await cache.setVersion('v2')).toBe(0);
+      expect(await storedUrls(store)).toEqual(['/sky.ktx2']);
+    });
+
+    it('purges pinned entries the manifest drops or pins to another version', async () => {
+      await seed(store, '/kept.ktx2', 'k-1', true);
+      await seed(store, '/repinned.ktx2', 'r-1', true);
+      await seed(store, '/dropped.ktx2', 'd-1', true);
+      await seed(store, '/unversioned.glb', 'u-1', true);
+
+      const manifest: AssetManifest = {
+        landing: {
+          textures: [
+            { url: '/kept.ktx2', bytes: 10, version: 'k-1' },
+            { url: '/repinned.ktx2', bytes: 10, version: 'r-2' },
+          ],
+          // No version any more: expected under the content version
+          models: [{ url: '/unversioned.glb', bytes: 10 }],
+        },
+      };
+
+      expect(await cache.setManifest(manifest)).toBe(3);
+      expect(await storedUrls(store)).toEqual(['/kept.ktx2']);
+    });
+
+    it('keeps pinned entries that match the manifest across content versions', async () => {
+      await seed(store, '/sky.ktx2', 'sky-1', true);
+      await cache.setManifest({
+        landing: {
+          extras: [{ url: '/sky.ktx2', bytes: 10, kind: 'environment', version: 'sky-1' }],
+        },
+      });
+
+      expect(await cache.setVersion('v2')).toBe(0);
+      expect(await storedUrls(store)).toEqual(['/sky.ktx2']);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PoseCodec } from '@/utils/PoseCodec';
+import { CameraController } from '@/core/CameraController';
+import type { SceneCameraPose } from '@/core/SceneManager';
+
+function pose(
+  position: [number, number, number],
+  target: [number, number, number]
+): SceneCameraPose {
+  return { position: new THREE.Vector3(...position), target: new THREE.Vector3(...target) };
+}
+
+describe('PoseCodec', () => {
+  it('round-trips a pose rounded to centimetres', () => {
+    const text = PoseCodec.encode(pose([-5.004, 3, 6.126], [0, 1.5, -0]));
+    expect(text).toBe('-5_3_6.13_0_1.5_0');
+
+    const decoded = PoseCodec.decode(text);
+    expect(decoded?.position.toArray()).toEqual([-5, 3, 6.13]);
+    expect(decoded?.target.toArray()).toEqual([0, 1.5, 0]);
+  });
+
+  it.each([
+    ['empty', ''],
+    ['too few numbers', '1_2_3_4_5'],
+    ['too many numbers', '1_2_3_4_5_6_7'],
+    ['not a number', '1_2_x_4_5_6'],
+    ['exponent', '1e3_2_3_4_5_6'],
+    ['empty part', '1__3_4_5_6'],
+    ['other separator', '1,2,3,4,5,6'],
+  ])('rejects malformed text (%s)', (_, text) => {
+    expect(PoseCodec.decode(text)).toBeNull();
+  });
+
+  it('rejects coordinates beyond the world limit', () => {
+    expect(PoseCodec.decode('10001_0_0_0_0_0')).toBeNull();
+    expect(PoseCodec.decode('10000_0_0_0_0_0')).not.toBeNull();
+  });
+
+  it('rejects a camera on top of its target', () => {
+    expect(PoseCodec.decode('1_2_3_1_2_3')).toBeNull();
+    expect(PoseCodec.decode('0_0_0_0_0_0.1')).toBeNull();
+    expect(PoseCodec.decode('0_0_0_0_0_0.11')).not.toBeNull();
+  });
+});
+
+describe('CameraController.restorePose', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('ignores an invalid pose without moving the camera', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const controller = new CameraController(new THREE.PerspectiveCamera());
+    const before = controller.getPose();
+
+    await expect(controller.restorePose('1_2_3_1_2_3')).resolves.toBe(false);
+
+    expect(controller.getPose().position.equals(before.position)).toBe(true);
+    expect(controller.getPose().target.equals(before.target)).toBe(true);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+});
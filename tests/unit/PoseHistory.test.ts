@@ -0,0 +1,68 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { PoseHistory } from '@/core/PoseHistory';
+import type { SceneCameraPose } from '@/core/SceneManager';
+
+/**
+ * Pose looking at the origin from `x` along the x axis
+ */
+function pose(x: number): SceneCameraPose {
+  return { position: new THREE.Vector3(x, 0, 0), target: new THREE.Vector3() };
+}
+
+function xOf(entry: SceneCameraPose | null): number | null {
+  return entry?.position.x ?? null;
+}
+
+describe('PoseHistory', () => {
+  it('steps back and forward through recorded poses', () => {
+    const history = new PoseHistory();
+    [1, 2, 3].forEach((x) => history.record(pose(x)));
+
+    expect(xOf(history.back())).toBe(2);
+    expect(xOf(history.back())).toBe(1);
+    expect(history.back()).toBeNull();
+    expect(xOf(history.forward())).toBe(2);
+    expect(xOf(history.forward())).toBe(3);
+    expect(history.forward()).toBeNull();
+  });
+
+  it('drops forward entries when recording after going back', () => {
+    const history = new PoseHistory();
+    [1, 2, 3].forEach((x) => history.record(pose(x)));
+    history.back();
+    history.back();
+
+    history.record(pose(4));
+
+    expect(history.canGoForward()).toBe(false);
+    expect(history.getLength()).toBe(2);
+    expect(xOf(history.back())).toBe(1);
+  });
+
+  it('ignores a pose matching the current entry', () => {
+    const history = new PoseHistory();
+    history.record(pose(1));
+
+    expect(history.record(pose(1.0001))).toBe(false);
+    expect(history.getLength()).toBe(1);
+  });
+
+  it('forgets the oldest entries beyond its limit', () => {
+    const history = new PoseHistory(2);
+    [1, 2, 3].forEach((x) => history.record(pose(x)));
+
+    expect(history.getLength()).toBe(2);
+    expect(xOf(history.back())).toBe(2);
+    expect(history.canGoBack()).toBe(false);
+  });
+
+  it('hands out copies', () => {
+    const history = new PoseHistory();
+    history.record(pose(1));
+
+    history.getCurrent()?.position.set(9, 9, 9);
+
+    expect(xOf(history.getCurrent())).toBe(1);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { WheelNormalizer } from '@/core/WheelNormalizer';
+
+const DOM_DELTA_PIXEL = 0;
+const DOM_DELTA_LINE = 1;
+const DOM_DELTA_PAGE = 2;
+
+describe('WheelNormalizer', () => {
+  describe('normalize', () => {
+    it('converts lines and pages to pixels', () => {
+      const wheel = new WheelNormalizer({ maxDelta: 1000 });
+
+      expect(wheel.normalize(30, DOM_DELTA_PIXEL, 800)).toBe(30);
+      expect(wheel.normalize(3, DOM_DELTA_LINE, 800)).toBe(48);
+      expect(wheel.normalize(-1, DOM_DELTA_PAGE, 800)).toBe(-800);
+    });
+
+    it('clamps single events to maxDelta', () => {
+      const wheel = new WheelNormalizer();
+
+      expect(wheel.normalize(1200, DOM_DELTA_PIXEL, 800)).toBe(200);
+      expect(wheel.normalize(-1, DOM_DELTA_PAGE, 800)).toBe(-200);
+    });
+  });
+
+  describe('process', () => {
+    it('marks a run of shrinking deltas as an inertial tail', () => {
+      const wheel = new WheelNormalizer();
+      const samples = [40, 60, 50, 40, 30, 20].map((delta, index) =>
+        wheel.process(delta, index * 16)
+      );
+
+      expect(samples.map((sample) => sample.inertial)).toEqual([
+        false,
+        false,
+        false,
+        false,
+        true,
+        true,
+      ]);
+    });
+
+    it('starts a new gesture after a pause, a direction change or a fresh push', () => {
+      const wheel = new WheelNormalizer();
+      [60, 50, 40, 30].forEach((delta, index) => wheel.process(delta, index * 16));
+      expect(wheel.isInertial()).toBe(true);
+
+      expect(wheel.process(80, 64).inertial).toBe(false); // fresh push mid-tail
+
+      [60, 50, 40].forEach((delta, index) => wheel.process(delta, 80 + index * 16));
+      expect(wheel.isInertial()).toBe(true);
+      expect(wheel.process(-10, 128).inertial).toBe(false);
+
+      [-60, -50, -40].forEach((delta, index) => wheel.process(delta, 144 + index * 16));
+      expect(wheel.process(-30, 1000).inertial).toBe(false);
+    });
+  });
+
+  describe('snap mode', () => {
+    it('turns one gesture into one intent', () => {
+      const wheel = new WheelNormalizer({ snap: true });
+      const intents = [20, 30, 40, 40].map(
+        (delta, index) => wheel.process(delta, index * 16).intent
+      );
+
+      expect(intents).toEqual([null, 'next', null, null]);
+    });
+
+    it('waits for the cooldown before the next intent', () => {
+      const wheel = new WheelNormalizer({ snap: true, snapCooldown: 500 });
+      expect(wheel.process(-50, 0).intent).toBe('previous');
+
+      expect(wheel.process(-50, 300).intent).toBeNull(); // new gesture, still cooling down
+      expect(wheel.process(-50, 600).intent).toBe('previous');
+    });
+
+    it('ignores inertial tails', () => {
+      const wheel = new WheelNormalizer({ snap: true, snapThreshold: 100, inertiaEvents: 1 });
+      // 130px in total, but everything after the first event is the tail
+      const intents = [40, 35, 30, 25].map(
+        (delta, index) => wheel.process(delta, index * 16).intent
+      );
+
+      expect(intents).toEqual([null, null, null, null]);
+    });
+  });
+});